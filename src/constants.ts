@@ -1,38 +1,73 @@
 export const API_BASE_URL = "http://api.bukvarix.com";
 export const CHARACTER_LIMIT = 25000;
 export const DEFAULT_NUM = 250;
+// bukvarix_domain_overview needs the whole keyword set, not the first page of it
+export const DEFAULT_OVERVIEW_NUM = 10000;
+// bukvarix_site_family makes one /v1/site/ call per host
+export const MAX_FAMILY_HOSTS = 20;
 export const MAX_NUM = 1000000;
 export const MAX_QUERIES_FREE = 100;
 export const MAX_EXCLUSIONS_FREE = 250;
 export const MAX_DOMAINS_COMPARE = 10;
 
+export interface PlanLimits {
+  max_queries: number;
+  max_exclusions: number;
+  max_domains_compare: number;
+  max_num: number;
+}
+
+// Built-in plans. The paid defaults are conservative; set the real numbers of
+// your contract as a custom plan in the config file ("plans").
+export const PLANS: Record<string, PlanLimits> = {
+  free: {
+    max_queries: MAX_QUERIES_FREE,
+    max_exclusions: MAX_EXCLUSIONS_FREE,
+    max_domains_compare: MAX_DOMAINS_COMPARE,
+    max_num: MAX_NUM,
+  },
+  paid: {
+    max_queries: 1000,
+    max_exclusions: 1000,
+    max_domains_compare: MAX_DOMAINS_COMPARE,
+    max_num: MAX_NUM,
+  },
+};
+
+export interface RegionInfo {
+  name: string;
+  engine: "yandex" | "google";
+  // Absent for country-wide regions
+  city?: string;
+}
+
 export const REGIONS = {
-  msk: "Москва (Яндекс)",
-  gmsk: "Москва (Google)",
-  spb: "СПб (Яндекс)",
-  rus: "Россия (Яндекс)",
-  nsk: "Новосибирск (Яндекс)",
-  ekb: "Екатеринбург (Яндекс)",
-  kzn: "Казань (Яндекс)",
-  nnv: "Н. Новгород (Яндекс)",
-  kry: "Красноярск (Яндекс)",
-  che: "Челябинск (Яндекс)",
-  sam: "Самара (Яндекс)",
-  ufa: "Уфа (Яндекс)",
-  rnd: "Ростов-на-Дону (Яндекс)",
-  krr: "Краснодар (Яндекс)",
-  oms: "Омск (Яндекс)",
-  vrn: "Воронеж (Яндекс)",
-  prm: "Пермь (Яндекс)",
-  vlg: "Волгоград (Яндекс)",
-  sar: "Саратов (Яндекс)",
-  tmn: "Тюмень (Яндекс)",
-  tom: "Томск (Яндекс)",
-  gkiev: "Киев (Google)",
-  minsk: "Минск (Яндекс)",
-  gminsk: "Минск (Google)",
-  nursul: "Астана (Яндекс)",
-} as const;
+  msk: { name: "Москва (Яндекс)", engine: "yandex", city: "Москва" },
+  gmsk: { name: "Москва (Google)", engine: "google", city: "Москва" },
+  spb: { name: "СПб (Яндекс)", engine: "yandex", city: "Санкт-Петербург" },
+  rus: { name: "Россия (Яндекс)", engine: "yandex" },
+  nsk: { name: "Новосибирск (Яндекс)", engine: "yandex", city: "Новосибирск" },
+  ekb: { name: "Екатеринбург (Яндекс)", engine: "yandex", city: "Екатеринбург" },
+  kzn: { name: "Казань (Яндекс)", engine: "yandex", city: "Казань" },
+  nnv: { name: "Н. Новгород (Яндекс)", engine: "yandex", city: "Нижний Новгород" },
+  kry: { name: "Красноярск (Яндекс)", engine: "yandex", city: "Красноярск" },
+  che: { name: "Челябинск (Яндекс)", engine: "yandex", city: "Челябинск" },
+  sam: { name: "Самара (Яндекс)", engine: "yandex", city: "Самара" },
+  ufa: { name: "Уфа (Яндекс)", engine: "yandex", city: "Уфа" },
+  rnd: { name: "Ростов-на-Дону (Яндекс)", engine: "yandex", city: "Ростов-на-Дону" },
+  krr: { name: "Краснодар (Яндекс)", engine: "yandex", city: "Краснодар" },
+  oms: { name: "Омск (Яндекс)", engine: "yandex", city: "Омск" },
+  vrn: { name: "Воронеж (Яндекс)", engine: "yandex", city: "Воронеж" },
+  prm: { name: "Пермь (Яндекс)", engine: "yandex", city: "Пермь" },
+  vlg: { name: "Волгоград (Яндекс)", engine: "yandex", city: "Волгоград" },
+  sar: { name: "Саратов (Яндекс)", engine: "yandex", city: "Саратов" },
+  tmn: { name: "Тюмень (Яндекс)", engine: "yandex", city: "Тюмень" },
+  tom: { name: "Томск (Яндекс)", engine: "yandex", city: "Томск" },
+  gkiev: { name: "Киев (Google)", engine: "google", city: "Киев" },
+  minsk: { name: "Минск (Яндекс)", engine: "yandex", city: "Минск" },
+  gminsk: { name: "Минск (Google)", engine: "google", city: "Минск" },
+  nursul: { name: "Астана (Яндекс)", engine: "yandex", city: "Астана" },
+} as const satisfies Record<string, RegionInfo>;
 
 export type Region = keyof typeof REGIONS;
 
@@ -44,3 +79,30 @@ export type ReportType = (typeof REPORT_TYPES)[number];
 
 export const COMPARISON_TYPES = ["intersect", "domain1_uniq", "domain2_uniq"] as const;
 export type ComparisonType = (typeof COMPARISON_TYPES)[number];
+
+// Full reports are held server-side so later pages can be fetched by cursor;
+// the cap applies per owner (MCP session), so one client can't evict another's
+export const REPORT_TTL_MS = 30 * 60 * 1000;
+export const MAX_STORED_REPORTS = 20;
+
+// Unique keywords listed per domain by bukvarix_competitor_matrix, best positions first
+export const MAX_UNIQUE_KEYWORDS_PER_DOMAIN = 1000;
+
+// Latest domain snapshots are kept in memory the same way, per owner; the
+// least recently fetched go first. Saved snapshots on disk are not affected
+export const LATEST_SNAPSHOT_TTL_MS = 60 * 60 * 1000;
+export const MAX_LATEST_SNAPSHOTS = 20;
+
+// Response cache TTLs in seconds, per endpoint. Domain data is refreshed by
+// Bukvarix far less often than keyword queries change. Override with
+// BUKVARIX_CACHE_TTL_<ENDPOINT> (e.g. BUKVARIX_CACHE_TTL_SITE_CMP=3600; 0 disables).
+export const DEFAULT_CACHE_TTL: Record<Endpoint, number> = {
+  "/v1/keywords/": 24 * 60 * 60,
+  "/v1/mkeywords/": 24 * 60 * 60,
+  "/v1/site/": 7 * 24 * 60 * 60,
+  "/v1/site_cmp/": 7 * 24 * 60 * 60,
+  "/v1/site_mcmp/": 7 * 24 * 60 * 60,
+};
+
+export const ENDPOINTS = ["/v1/keywords/", "/v1/mkeywords/", "/v1/site/", "/v1/site_cmp/", "/v1/site_mcmp/"] as const;
+export type Endpoint = (typeof ENDPOINTS)[number];
@@ -0,0 +1,218 @@
+import { randomUUID } from "node:crypto";
+import http, { type IncomingMessage, type ServerResponse } from "node:http";
+import os from "node:os";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { createServer } from "./server.js";
+import { envNumber } from "./services/config.js";
+import { redactSecrets } from "./services/credentials.js";
+import { runAsOwner } from "./services/owner.js";
+import { dropReports } from "./services/reports.js";
+import { dropSnapshots } from "./services/snapshots.js";
+
+export interface HttpOptions {
+  host: string;
+  port: number;
+}
+
+const MCP_PATH = "/mcp";
+const HEALTH_PATH = "/health";
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// Sessions idle this long are closed; clients that vanish without DELETE would otherwise stay forever
+const SESSION_IDLE_MS = Math.max(1, envNumber("BUKVARIX_HTTP_SESSION_TTL", 30 * 60)) * 1000;
+const MAX_SESSIONS = Math.max(1, envNumber("BUKVARIX_HTTP_MAX_SESSIONS", 100));
+const SWEEP_INTERVAL_MS = Math.min(SESSION_IDLE_MS, 60 * 1000);
+
+// Host and Origin headers accepted on /mcp; anything else is a DNS-rebinding attempt
+interface AllowedSources {
+  hosts: string[];
+  origins: string[];
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  lastSeen: number;
+  // Requests still being answered, open SSE streams included; a busy session is never idle
+  open: number;
+}
+
+// One transport (and McpServer) per MCP session, keyed by Mcp-Session-Id
+const sessions = new Map<string, Session>();
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function sendRpcError(res: ServerResponse, status: number, message: string): void {
+  sendJson(res, status, { jsonrpc: "2.0", error: { code: -32000, message }, id: null });
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error("Request body too large");
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+/**
+ * Keep a session alive for as long as the response is open.
+ */
+function trackRequest(session: Session, res: ServerResponse): void {
+  session.open++;
+  session.lastSeen = Date.now();
+  res.once("close", () => {
+    session.open--;
+    session.lastSeen = Date.now();
+  });
+}
+
+/**
+ * Close sessions idle for longer than SESSION_IDLE_MS. Closing runs the
+ * transport's onclose, which forgets the session and its stored data.
+ */
+async function sweepIdleSessions(now = Date.now()): Promise<void> {
+  const idle = [...sessions.values()].filter((session) => session.open === 0 && now - session.lastSeen > SESSION_IDLE_MS);
+  await Promise.all(idle.map((session) => session.transport.close().catch(() => undefined)));
+}
+
+function envList(name: string): string[] | undefined {
+  const list = (process.env[name] ?? "").split(",").map((item) => item.trim()).filter(Boolean);
+  return list.length > 0 ? list : undefined;
+}
+
+/**
+ * Host headers the server answers to: BUKVARIX_HTTP_ALLOWED_HOSTS, or else the
+ * configured host and port, with the loopback names when bound locally and the
+ * machine's hostname when bound to every interface. Origins default to the
+ * same hosts over http and https (BUKVARIX_HTTP_ALLOWED_ORIGINS overrides).
+ */
+function allowedSources(options: HttpOptions): AllowedSources {
+  const loopback = ["localhost", "127.0.0.1", "[::1]"];
+  const names = ["0.0.0.0", "::"].includes(options.host)
+    ? [...loopback, os.hostname()]
+    : ["localhost", "127.0.0.1", "::1"].includes(options.host)
+      ? loopback
+      : [options.host.includes(":") ? `[${options.host}]` : options.host];
+  const hosts = envList("BUKVARIX_HTTP_ALLOWED_HOSTS") ?? names.map((name) => `${name}:${options.port}`);
+  const origins = envList("BUKVARIX_HTTP_ALLOWED_ORIGINS") ?? hosts.flatMap((host) => [`http://${host}`, `https://${host}`]);
+  return { hosts, origins };
+}
+
+async function handleMcpRequest(req: IncomingMessage, res: ServerResponse, allowed: AllowedSources): Promise<void> {
+  const sessionHeader = req.headers["mcp-session-id"];
+  const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+
+  if (req.method !== "POST") {
+    // GET opens the SSE stream of an existing session, DELETE ends it
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session) {
+      sendRpcError(res, sessionId ? 404 : 400, sessionId ? "Session not found" : "Missing Mcp-Session-Id header");
+      return;
+    }
+    trackRequest(session, res);
+    await runAsOwner(sessionId!, () => session.transport.handleRequest(req, res));
+    return;
+  }
+
+  let body: unknown;
+  try {
+    body = await readJsonBody(req);
+  } catch (error) {
+    sendRpcError(res, 400, `Invalid request body: ${error instanceof Error ? error.message : String(error)}`);
+    return;
+  }
+
+  if (sessionId) {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      sendRpcError(res, 404, "Session not found");
+      return;
+    }
+    trackRequest(session, res);
+    // Reports and domain data stored while handling the request belong to the session
+    await runAsOwner(sessionId, () => session.transport.handleRequest(req, res, body));
+    return;
+  }
+
+  if (!isInitializeRequest(body)) {
+    sendRpcError(res, 400, "Missing Mcp-Session-Id header");
+    return;
+  }
+
+  if (sessions.size >= MAX_SESSIONS) {
+    await sweepIdleSessions();
+    if (sessions.size >= MAX_SESSIONS) {
+      sendRpcError(res, 503, `Too many sessions (limit ${MAX_SESSIONS}). End unused sessions or try again later.`);
+      return;
+    }
+  }
+
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    enableDnsRebindingProtection: true,
+    allowedHosts: allowed.hosts,
+    allowedOrigins: allowed.origins,
+    onsessioninitialized: (id) => {
+      sessions.set(id, { transport, lastSeen: Date.now(), open: 0 });
+    },
+  });
+  transport.onclose = () => {
+    if (transport.sessionId) {
+      sessions.delete(transport.sessionId);
+      dropReports(transport.sessionId);
+      dropSnapshots(transport.sessionId);
+    }
+  };
+
+  await createServer().connect(transport);
+  await transport.handleRequest(req, res, body);
+}
+
+/**
+ * Serve MCP over Streamable HTTP (JSON responses and SSE streams) at /mcp,
+ * with a health check at /health. Each client session gets its own McpServer;
+ * idle sessions are closed and the number of open sessions is capped. /mcp
+ * only answers requests whose Host and Origin headers are allowed.
+ */
+export async function runHttp(options: HttpOptions): Promise<http.Server> {
+  const allowed = allowedSources(options);
+  const httpServer = http.createServer((req, res) => {
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+
+    if (path === HEALTH_PATH && req.method === "GET") {
+      sendJson(res, 200, { status: "ok", transport: "http", sessions: sessions.size });
+      return;
+    }
+
+    if (path !== MCP_PATH) {
+      sendJson(res, 404, { error: "Not found" });
+      return;
+    }
+
+    handleMcpRequest(req, res, allowed).catch((error) => {
+      console.error("HTTP transport error:", redactSecrets(error instanceof Error ? error.stack ?? error.message : String(error)));
+      if (!res.headersSent) {
+        sendRpcError(res, 500, "Internal server error");
+      }
+    });
+  });
+
+  const sweeper = setInterval(() => void sweepIdleSessions(), SWEEP_INTERVAL_MS);
+  sweeper.unref();
+  httpServer.once("close", () => clearInterval(sweeper));
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+  console.error(`Bukvarix MCP server running via Streamable HTTP on http://${options.host}:${options.port}${MCP_PATH} (allowed hosts: ${allowed.hosts.join(", ")})`);
+  return httpServer;
+}
@@ -0,0 +1,126 @@
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { defaultPlan } from "../services/plans.js";
+import type { SemanticCorePromptInput, CompetitorAuditPromptInput, RegionalExpansionPromptInput } from "../schemas/prompts.js";
+
+// Rows per report the playbooks ask for; enough for a working semantic core
+const PLAYBOOK_NUM = Math.min(1000, defaultPlan.max_num);
+
+const DEFAULT_EXPANSION_REGIONS = ["spb", "nsk", "ekb", "kzn", "nnv"];
+
+const REPORT_LANGUAGE = "Write the report in the language of the conversation (Russian if unclear). "
+  + "Do not page through results with bukvarix_fetch_page unless a step says so; work from the first page "
+  + "and the summary fields, and let the exported file carry the full data.";
+
+/**
+ * Split a comma- or newline-separated prompt argument, dropping blanks and duplicates.
+ */
+function splitList(value: string | undefined): string[] {
+  return [...new Set((value ?? "").split(/[,\n]/).map((item) => item.trim()).filter(Boolean))];
+}
+
+function userPrompt(description: string, text: string): GetPromptResult {
+  return {
+    description,
+    messages: [{
+      role: "user",
+      content: { type: "text", text },
+    }],
+  };
+}
+
+const json = (value: unknown) => JSON.stringify(value);
+
+export function semanticCorePrompt(args: SemanticCorePromptInput): GetPromptResult {
+  const seeds = splitList(args.seeds);
+  const exclusions = splitList(args.exclusions);
+  const region = args.region ?? "msk";
+  const filters = args.min_exact ? { min_exact: Number(args.min_exact) } : undefined;
+
+  const search = {
+    queries: seeds,
+    ...(exclusions.length > 0 ? { exclusions } : {}),
+    region,
+    num: PLAYBOOK_NUM,
+    ...(filters ? { filters } : {}),
+  };
+
+  return userPrompt(`Semantic core for ${seeds.join(", ")}`, `Build a semantic core for these seed phrases: ${seeds.join(", ")} (region ${region}).
+
+Steps:
+1. Call bukvarix_search_keywords_batch with ${json(search)}.
+   Note "total" and "report_id". If total is 0, stop and suggest broader seeds.
+2. Call bukvarix_cluster_keywords with { "report_id": "<report_id from step 1>", "method": "lemma" }.
+   If most clusters have a single phrase, repeat with "threshold": 0.3.
+3. Call bukvarix_export for the keyword report (format "xlsx") and for the cluster report (format "csv").
+
+Report:
+- Summary: phrases found, clusters, total exact frequency.
+- Table of the 30 largest clusters: Head phrase | Phrases | Broad | Exact | Intent.
+  Judge intent from the phrases: commercial (купить, цена, заказать...), informational (как, что такое...) or mixed.
+- Clusters that look off-topic, with the words to add to the exclusion list.
+- Paths of the exported files.
+
+${REPORT_LANGUAGE}`);
+}
+
+export function competitorAuditPrompt(args: CompetitorAuditPromptInput): GetPromptResult {
+  const competitors = splitList(args.competitors).filter((competitor) => competitor !== args.domain);
+  const region = args.region ?? "msk";
+  const regionArgs = args.region ? { region: args.region } : {};
+
+  const matrix = { domains: [args.domain, ...competitors], ...regionArgs, num: PLAYBOOK_NUM, exact_overlap: true };
+  const gap = {
+    domain: args.domain,
+    competitors,
+    ...regionArgs,
+    num: PLAYBOOK_NUM,
+    min_competitors: competitors.length > 1 ? 2 : 1,
+  };
+
+  return userPrompt(`Competitor audit of ${args.domain}`, `Audit ${args.domain} against its competitors ${competitors.join(", ")} in region ${region}.
+Plan '${defaultPlan.name}' allows ${defaultPlan.max_domains_compare - 1} competitors per call; if there are more, keep the first ones and say so.
+
+Steps:
+1. Call bukvarix_competitor_matrix with ${json(matrix)}.
+   Use "coverage", "unique" and "overlap" from the result.
+2. Call bukvarix_keyword_gap with ${json(gap)}.
+   If it finds fewer than 20 gaps, repeat with "min_competitors": 1.
+3. Call bukvarix_cluster_keywords with { "report_id": "<report_id from step 2>" } to group the gaps into topics.
+4. Call bukvarix_export for the gap report (format "xlsx").
+
+Report:
+- Coverage table: Domain | Keywords | Unique keywords.
+- Pairwise overlap of ${args.domain} with each competitor.
+- The 20 gaps with the highest score: Keyword | Exact | Best competitor position | Own position (or "missing").
+- Gap topics from step 3: Head phrase | Phrases | Exact, largest first.
+- 3 to 5 concrete recommendations: which topics to cover with new pages and which existing pages to improve.
+- Path of the exported file.
+
+${REPORT_LANGUAGE}`);
+}
+
+export function regionalExpansionPrompt(args: RegionalExpansionPromptInput): GetPromptResult {
+  const home = args.home_region ?? "msk";
+  const requested = splitList(args.regions);
+  const regions = [home, ...(requested.length > 0 ? requested : DEFAULT_EXPANSION_REGIONS)].filter((region, i, all) => all.indexOf(region) === i);
+
+  const sweep = { domain: args.domain, regions, num: PLAYBOOK_NUM };
+
+  return userPrompt(`Regional expansion check for ${args.domain}`, `Check how ${args.domain}, promoted in region ${home}, performs in ${regions.slice(1).join(", ")}.
+Region codes and cities are listed in the bukvarix://regions resource.
+
+Steps:
+1. Call bukvarix_region_sweep with ${json(sweep)}.
+   Note "coverage" (keywords per region). Regions listed in "failed_chunks" are unknown, not weak.
+2. For each region other than ${home}, find the keywords that rank in ${home} but are missing in that region,
+   and those where the position is at least 10 worse than in ${home}.
+3. Call bukvarix_export for the sweep report (format "xlsx").
+
+Report:
+- Table: Region | Keywords | Share of ${home} keywords | Missing keywords | Exact frequency of missing keywords.
+- For the two regions with the largest missing exact frequency: the 15 most frequent missing keywords.
+- Which regions to prioritise and why (regional landing pages, local contacts, regional subdomains).
+- Path of the exported file.
+
+${REPORT_LANGUAGE}`);
+}
@@ -0,0 +1,83 @@
+import { McpError, ErrorCode, type ListResourcesResult, type ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import { REGIONS } from "../constants.js";
+import { normalizeDomain } from "../services/domain-name.js";
+import { resolveCredentials, runWithCredentials, type RequestCredentials } from "../services/credentials.js";
+import { latestSnapshot, listSnapshots, listSavedSnapshots, loadSnapshot, type DomainSnapshot } from "../services/snapshots.js";
+
+export const DOMAIN_SNAPSHOT_URI_TEMPLATE = "bukvarix://domains/{domain}/{region}/latest";
+
+function snapshotUri(snapshot: DomainSnapshot): string {
+  return `bukvarix://domains/${encodeURIComponent(snapshot.domain)}/${snapshot.region}/latest`;
+}
+
+export function listSnapshotResources(): ListResourcesResult {
+  return {
+    resources: listSnapshots().map((snapshot) => ({
+      uri: snapshotUri(snapshot),
+      name: `${snapshot.domain} (${snapshot.region})`,
+      description: `${snapshot.keywords.length} keywords, fetched ${snapshot.fetched_at}`,
+      mimeType: "application/json",
+    })),
+  };
+}
+
+export function completeSnapshotDomain(value: string): string[] {
+  return [...new Set(listSnapshots().map((snapshot) => snapshot.domain))].filter((domain) => domain.startsWith(value));
+}
+
+export function completeSnapshotRegion(value: string, context?: { arguments?: Record<string, string> }): string[] {
+  const domain = context?.arguments?.domain;
+  const regions = domain
+    ? listSnapshots().filter((snapshot) => snapshot.domain === domain).map((snapshot) => snapshot.region)
+    : Object.keys(REGIONS);
+  return regions.filter((region) => region.startsWith(value));
+}
+
+function snapshotName(domain: string): string {
+  try {
+    return normalizeDomain(domain, false).domain;
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, (error as Error).message);
+  }
+}
+
+/**
+ * The keywords of the last /v1/site/ fetch for a domain and region by this
+ * session, by any tool that fetched the domain's full rows. Once that has
+ * expired, the newest snapshot saved with the caller's API key stands in.
+ */
+export async function readDomainSnapshot(
+  domain: string,
+  region: string,
+  headers?: Record<string, string | string[] | undefined>
+): Promise<ReadResourceResult> {
+  if (!(region in REGIONS)) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown region '${region}'. Available regions: ${Object.keys(REGIONS).join(", ")}.`);
+  }
+  const name = snapshotName(decodeURIComponent(domain));
+  let credentials: RequestCredentials;
+  try {
+    credentials = resolveCredentials(headers);
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidRequest, (error as Error).message);
+  }
+
+  const snapshot = latestSnapshot(name, region) ?? await runWithCredentials(credentials, async () => {
+    const saved = await listSavedSnapshots(name, region);
+    return saved.length > 0 ? await loadSnapshot(name, region, saved[saved.length - 1]) : undefined;
+  });
+  if (!snapshot) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `No snapshot of ${name} in region ${region}. Fetch it with bukvarix_get_domain_keywords first.`
+    );
+  }
+
+  return {
+    contents: [{
+      uri: snapshotUri(snapshot),
+      mimeType: "application/json",
+      text: JSON.stringify({ ...snapshot, total: snapshot.keywords.length }),
+    }],
+  };
+}
@@ -0,0 +1,15 @@
+import { REGIONS } from "../constants.js";
+import type { ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+
+export const REGIONS_URI = "bukvarix://regions";
+
+export function readRegions(): ReadResourceResult {
+  const regions = Object.entries(REGIONS).map(([code, info]) => ({ code, ...info }));
+  return {
+    contents: [{
+      uri: REGIONS_URI,
+      mimeType: "application/json",
+      text: JSON.stringify(regions, null, 2),
+    }],
+  };
+}
@@ -0,0 +1,50 @@
+import { McpError, ErrorCode, type ListResourcesResult, type ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import { REPORT_TTL_MS } from "../constants.js";
+import { findReport, listReports, reportHeading, type StoredReport } from "../services/reports.js";
+
+export const REPORT_URI_TEMPLATE = "bukvarix://reports/{id}";
+
+function reportUri(report: StoredReport): string {
+  return `bukvarix://reports/${report.id}`;
+}
+
+export function listReportResources(): ListResourcesResult {
+  return {
+    resources: listReports().map((report) => ({
+      uri: reportUri(report),
+      name: reportHeading(report),
+      description: `${report.rows.length} ${report.rowsKey}, created ${new Date(report.createdAt).toISOString()}`,
+      mimeType: "application/json",
+    })),
+  };
+}
+
+export function completeReportId(value: string): string[] {
+  return listReports().map((report) => report.id).filter((id) => id.startsWith(value));
+}
+
+/**
+ * Every row of a stored report with its metadata, unpaged.
+ */
+export function readReport(id: string): ReadResourceResult {
+  const report = findReport(id);
+  if (!report) {
+    throw new McpError(ErrorCode.InvalidParams, `Report ${id} not found or expired. Reports are kept for ${REPORT_TTL_MS / 60000} minutes.`);
+  }
+
+  return {
+    contents: [{
+      uri: reportUri(report),
+      mimeType: "application/json",
+      text: JSON.stringify({
+        report_id: report.id,
+        title: reportHeading(report),
+        created_at: new Date(report.createdAt).toISOString(),
+        expires_at: new Date(report.createdAt + REPORT_TTL_MS).toISOString(),
+        ...report.meta,
+        total: report.rows.length,
+        [report.rowsKey]: report.rows,
+      }),
+    }],
+  };
+}
@@ -0,0 +1,5 @@
+import { z } from "zod";
+
+export const AccountInfoSchema = z.object({}).strict();
+
+export type AccountInfoInput = z.infer<typeof AccountInfoSchema>;
@@ -0,0 +1,18 @@
+import { z } from "zod";
+import { ENDPOINTS } from "../constants.js";
+
+export const CacheStatsSchema = z.object({}).strict();
+
+export const CacheClearSchema = z.object({
+  endpoint: z
+    .enum(ENDPOINTS)
+    .optional()
+    .describe("Очистить только ответы этого эндпоинта (по умолчанию: все)"),
+  expired_only: z
+    .boolean()
+    .default(false)
+    .describe("Если true, удалить только устаревшие записи"),
+}).strict();
+
+export type CacheStatsInput = z.infer<typeof CacheStatsSchema>;
+export type CacheClearInput = z.infer<typeof CacheClearSchema>;
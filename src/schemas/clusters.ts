@@ -0,0 +1,36 @@
+import { z } from "zod";
+import { DEFAULT_NUM } from "../constants.js";
+import { schemaLimits } from "../services/plans.js";
+import { CLUSTER_METHODS } from "../services/clustering.js";
+import { RegionEnum, NumSchema, BypassCacheSchema } from "./common.js";
+
+export const ClusterKeywordsSchema = z.object({
+  query: z
+    .string()
+    .min(1, "Query must not be empty")
+    .optional()
+    .describe("Фраза для нового поиска, результаты которого кластеризуются (укажите query или report_id)"),
+  report_id: z
+    .string()
+    .min(1, "Report id must not be empty")
+    .optional()
+    .describe("report_id ранее полученного отчета любого инструмента (хранится 30 минут; укажите query или report_id)"),
+  region: RegionEnum
+    .optional()
+    .describe("Регион для нового поиска (по умолчанию: msk - Москва Яндекс)"),
+  num: NumSchema
+    .describe(`Количество строк нового поиска (по умолчанию ${DEFAULT_NUM}, максимум ${schemaLimits.max_num})`),
+  method: z
+    .enum(CLUSTER_METHODS)
+    .default("lemma")
+    .describe("Способ группировки: 'lemma' (общие слова с учетом словоформ) или 'ngram' (похожесть по буквенным триграммам)"),
+  threshold: z
+    .number()
+    .min(0, "Threshold must be between 0 and 1")
+    .max(1, "Threshold must be between 0 and 1")
+    .optional()
+    .describe("Минимальная похожесть фразы на главную фразу кластера, от 0 до 1 (по умолчанию 0.5 для 'lemma', 0.4 для 'ngram')"),
+  bypass_cache: BypassCacheSchema,
+}).strict();
+
+export type ClusterKeywordsInput = z.infer<typeof ClusterKeywordsSchema>;
@@ -0,0 +1,122 @@
+import { z } from "zod";
+import { REGIONS, DEFAULT_NUM, type Region } from "../constants.js";
+import { schemaLimits } from "../services/plans.js";
+import { INTENTS } from "../services/intent.js";
+import { GROUP_BY, AGGREGATES, SORT_ORDERS } from "../services/arrange.js";
+
+const regionKeys = Object.keys(REGIONS) as [Region, ...Region[]];
+
+export const RegionEnum = z.enum(regionKeys);
+
+// Also a URL, www. or punycode spelling; the tool normalizes it with normalizeDomain()
+export const DomainInputSchema = z
+  .string()
+  .trim()
+  .min(1, "Domain must not be empty")
+  .max(2048, "Domain must not exceed 2048 characters");
+
+export const StripWwwSchema = z
+  .boolean()
+  .default(true)
+  .describe("Если true, убрать 'www.' в начале домена (по умолчанию true)");
+
+const isValidRegex = (pattern: string) => {
+  try {
+    new RegExp(pattern, "iu");
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const bound = (description: string) => z
+  .number()
+  .int("Bound must be an integer")
+  .nonnegative("Bound must not be negative")
+  .optional()
+  .describe(description);
+
+export const KeywordFiltersSchema = z.object({
+  include_words: z
+    .array(z.string().min(1, "Word must not be empty"))
+    .optional()
+    .describe("Оставить фразы, содержащие хотя бы одно из слов с учетом словоформ ('купить' найдет 'купила'); для элемента из нескольких слов нужны все слова"),
+  exclude_words: z
+    .array(z.string().min(1, "Word must not be empty"))
+    .optional()
+    .describe("Убрать фразы, содержащие любое из слов (минус-слова) с учетом словоформ"),
+  min_words: bound("Минимальное количество слов во фразе"),
+  max_words: bound("Максимальное количество слов во фразе"),
+  min_chars: bound("Минимальная длина фразы в символах"),
+  max_chars: bound("Максимальная длина фразы в символах"),
+  min_broad: bound("Минимальная широкая частотность"),
+  max_broad: bound("Максимальная широкая частотность"),
+  min_exact: bound("Минимальная точная частотность"),
+  max_exact: bound("Максимальная точная частотность"),
+  regex: z
+    .string()
+    .refine(isValidRegex, "Invalid regular expression")
+    .optional()
+    .describe("Оставить фразы, подходящие под регулярное выражение (без учета регистра)"),
+  exclude_regex: z
+    .string()
+    .refine(isValidRegex, "Invalid regular expression")
+    .optional()
+    .describe("Убрать фразы, подходящие под регулярное выражение (без учета регистра)"),
+  intent: z
+    .enum(INTENTS)
+    .optional()
+    .describe("Оставить фразы с намерением: 'commercial' (купить, цена, доставка...), 'informational' (как, что такое, своими руками...), 'navigational' (официальный сайт, вход, бренд или домен в запросе) или 'local' (рядом, адрес, город)"),
+  branded: z
+    .boolean()
+    .optional()
+    .describe("true - оставить только брендовые фразы, false - только небрендовые (бренды: 'brands' из конфигурации и имена анализируемых доменов)"),
+  geo: z
+    .boolean()
+    .optional()
+    .describe("true - оставить только фразы с городом из списка регионов (москва, спб, питер...), false - только без города"),
+}).strict();
+
+export const ClassifySchema = z
+  .boolean()
+  .default(false)
+  .describe("Если true, добавить к каждой фразе теги: намерение (commercial, informational, navigational, local), найденные бренды и города");
+
+// Rows per API call, bounded by the plan; each schema adds its own description
+export const NumSchema = z
+  .number()
+  .int("Number must be an integer")
+  .min(1, "Number must be at least 1")
+  .max(schemaLimits.max_num, `Number must not exceed ${schemaLimits.max_num}`)
+  .default(Math.min(DEFAULT_NUM, schemaLimits.max_num));
+
+export const BypassCacheSchema = z
+  .boolean()
+  .default(false)
+  .describe("Если true, не брать ответ из кэша и запросить свежие данные из API");
+
+// Spread into the schemas of tools that return keyword rows; see arrangeRows()
+export const ArrangeShape = {
+  sort_by: z
+    .string()
+    .min(1, "Column must not be empty")
+    .optional()
+    .describe("Колонка для сортировки строк: любое поле строки, например 'exact_frequency', 'position', 'keyword'; вложенные поля через точку ('regions.spb.exact_frequency', 'positions.ozon.ru')"),
+  sort_order: z
+    .enum(SORT_ORDERS)
+    .optional()
+    .describe("Порядок сортировки: 'asc' или 'desc' (по умолчанию 'asc' для текста и позиций, 'desc' для чисел)"),
+  group_by: z
+    .enum(GROUP_BY)
+    .optional()
+    .describe("Сгруппировать строки: 'first_word' (первое слово), 'words_count' (число слов) или 'position_bucket' (1-3, 4-10, 11-50, 51+)"),
+  aggregate: z
+    .enum(AGGREGATES)
+    .default("sum")
+    .describe("Как считать частотность группы при group_by: 'sum' (сумма) или 'avg' (среднее); по умолчанию 'sum'"),
+};
+
+export const ArrangeSchema = z.object(ArrangeShape);
+
+export type KeywordFilters = z.infer<typeof KeywordFiltersSchema>;
+export type ArrangeOptions = z.infer<typeof ArrangeSchema>;
@@ -0,0 +1,27 @@
+import { z } from "zod";
+import { DEFAULT_NUM } from "../constants.js";
+import { schemaLimits } from "../services/plans.js";
+import { RegionEnum, DomainInputSchema, StripWwwSchema, ClassifySchema, ArrangeShape, NumSchema, BypassCacheSchema } from "./common.js";
+
+export const CompetitorMatrixSchema = z.object({
+  domains: z
+    .array(DomainInputSchema)
+    .min(2, "At least 2 domains are required")
+    .max(schemaLimits.max_domains_compare, `Plan allows maximum ${schemaLimits.max_domains_compare} domains`)
+    .describe(`Список доменов-конкурентов (от 2 до ${schemaLimits.max_domains_compare} по тарифу; URL и IDN тоже подходят)`),
+  strip_www: StripWwwSchema,
+  region: RegionEnum
+    .optional()
+    .describe("Регион поисковой машины (по умолчанию: msk - Москва Яндекс)"),
+  num: NumSchema
+    .describe(`Количество ключевых слов каждого домена (по умолчанию ${DEFAULT_NUM}, максимум ${schemaLimits.max_num})`),
+  exact_overlap: z
+    .boolean()
+    .default(false)
+    .describe("Если true, попарные пересечения считаются по полным данным API (один запрос на каждую пару доменов), а не по полученным строкам"),
+  classify: ClassifySchema,
+  ...ArrangeShape,
+  bypass_cache: BypassCacheSchema,
+}).strict();
+
+export type CompetitorMatrixInput = z.infer<typeof CompetitorMatrixSchema>;
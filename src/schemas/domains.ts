@@ -1,25 +1,17 @@
 import { z } from "zod";
-import { FORMATS, REGIONS, COMPARISON_TYPES, MAX_NUM, DEFAULT_NUM, MAX_DOMAINS_COMPARE, type Region } from "../constants.js";
-
-const regionKeys = Object.keys(REGIONS) as [Region, ...Region[]];
-const RegionEnum = z.enum(regionKeys);
+import { FORMATS, COMPARISON_TYPES, DEFAULT_NUM } from "../constants.js";
+import { schemaLimits } from "../services/plans.js";
+import { RegionEnum, DomainInputSchema, StripWwwSchema, KeywordFiltersSchema, ClassifySchema, ArrangeShape, NumSchema, BypassCacheSchema } from "./common.js";
 
 export const GetDomainKeywordsSchema = z.object({
-  domain: z
-    .string()
-    .min(1, "Domain must not be empty")
-    .regex(/^[a-zA-Z0-9а-яёА-ЯЁ.-]+$/, "Domain must not include protocol or path")
-    .describe("Домен или поддомен (без протокола, например: example.com или subdomain.example.com)"),
+  domain: DomainInputSchema
+    .describe("Домен или поддомен (example.com, subdomain.example.com); можно вставить URL (https://www.example.com/catalog) или IDN в любой записи (окна.рф, xn--80atjc.xn--p1ai)"),
+  strip_www: StripWwwSchema,
   region: RegionEnum
     .optional()
     .describe("Регион поисковой машины (по умолчанию: msk - Москва Яндекс)"),
-  num: z
-    .number()
-    .int("Number must be an integer")
-    .min(1, "Number must be at least 1")
-    .max(MAX_NUM, `Number must not exceed ${MAX_NUM}`)
-    .default(DEFAULT_NUM)
-    .describe(`Количество строк в отчете (по умолчанию ${DEFAULT_NUM}, максимум ${MAX_NUM})`),
+  num: NumSchema
+    .describe(`Количество строк в отчете (по умолчанию ${DEFAULT_NUM}, максимум ${schemaLimits.max_num})`),
   format: z
     .enum(FORMATS)
     .default("json")
@@ -28,14 +20,24 @@ export const GetDomainKeywordsSchema = z.object({
     .boolean()
     .default(false)
     .describe("Если true, вернуть только общее количество результатов без данных"),
+  filters: KeywordFiltersSchema
+    .optional()
+    .describe("Фильтры по полученным строкам: слова и минус-слова с учетом словоформ, длина, частотность, регулярные выражения, намерение"),
+  save_snapshot: z
+    .boolean()
+    .default(false)
+    .describe("Если true, сохранить все полученные строки (до фильтров) как снимок на текущую дату для bukvarix_position_changes"),
+  classify: ClassifySchema,
+  ...ArrangeShape,
+  bypass_cache: BypassCacheSchema,
 }).strict();
 
 export const CompareDomainsSchema = z.object({
   domains: z
-    .array(z.string().min(1, "Domain must not be empty").regex(/^[a-zA-Z0-9а-яёА-ЯЁ.-]+$/, "Domain must not include protocol or path"))
+    .array(DomainInputSchema)
     .min(2, "At least 2 domains are required")
-    .max(MAX_DOMAINS_COMPARE, `Free API allows maximum ${MAX_DOMAINS_COMPARE} domains`)
-    .describe(`Список доменов для сравнения (от 2 до ${MAX_DOMAINS_COMPARE} для бесплатного API)`),
+    .describe("Список доменов для сравнения (от 2; больше лимита тарифа - сравниваются по частям, только пересечение); можно передавать URL и IDN в любой записи"),
+  strip_www: StripWwwSchema,
   comparison_type: z
     .enum(COMPARISON_TYPES)
     .default("intersect")
@@ -43,13 +45,8 @@ export const CompareDomainsSchema = z.object({
   region: RegionEnum
     .optional()
     .describe("Регион поисковой машины (по умолчанию: msk - Москва Яндекс)"),
-  num: z
-    .number()
-    .int("Number must be an integer")
-    .min(1, "Number must be at least 1")
-    .max(MAX_NUM, `Number must not exceed ${MAX_NUM}`)
-    .default(DEFAULT_NUM)
-    .describe(`Количество строк в отчете (по умолчанию ${DEFAULT_NUM}, максимум ${MAX_NUM})`),
+  num: NumSchema
+    .describe(`Количество строк в отчете (по умолчанию ${DEFAULT_NUM}, максимум ${schemaLimits.max_num})`),
   format: z
     .enum(FORMATS)
     .default("json")
@@ -58,6 +55,12 @@ export const CompareDomainsSchema = z.object({
     .boolean()
     .default(false)
     .describe("Если true, вернуть только общее количество результатов без данных"),
+  filters: KeywordFiltersSchema
+    .optional()
+    .describe("Фильтры по полученным строкам: слова и минус-слова с учетом словоформ, длина, частотность, регулярные выражения, намерение"),
+  classify: ClassifySchema,
+  ...ArrangeShape,
+  bypass_cache: BypassCacheSchema,
 }).strict();
 
 export type GetDomainKeywordsInput = z.infer<typeof GetDomainKeywordsSchema>;
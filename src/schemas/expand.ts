@@ -0,0 +1,52 @@
+import { z } from "zod";
+import { DEFAULT_NUM } from "../constants.js";
+import { schemaLimits } from "../services/plans.js";
+import { RegionEnum, KeywordFiltersSchema, ClassifySchema, ArrangeShape, NumSchema, BypassCacheSchema } from "./common.js";
+
+const budget = (max: number, fallback: number, description: string) => z
+  .number()
+  .int("Budget must be an integer")
+  .min(1, "Budget must be at least 1")
+  .max(max, `Budget must not exceed ${max}`)
+  .default(fallback)
+  .describe(description);
+
+export const ExpandKeywordsSchema = z.object({
+  seeds: z
+    .array(z.string().min(1, "Seed must not be empty"))
+    .min(1, "At least one seed is required")
+    .describe("Исходные фразы; каждая запрашивается через /v1/keywords/ (поддерживает спецсимволы: *, !, ~)"),
+  exclusions: z
+    .array(z.string().min(1, "Exclusion must not be empty"))
+    .optional()
+    .describe("Минус-слова с учетом словоформ: фразы с ними не попадают в результат и не расширяются дальше"),
+  region: RegionEnum
+    .optional()
+    .describe("Регион поисковой машины, для которого считаются частоты (по умолчанию: msk - Москва Яндекс)"),
+  depth: z
+    .number()
+    .int("Depth must be an integer")
+    .min(1, "Depth must be at least 1")
+    .max(5, "Depth must not exceed 5")
+    .default(2)
+    .describe("Сколько кругов расширения: 1 - только исходные фразы, 2 - еще и лучшие найденные фразы и т.д. (по умолчанию 2)"),
+  top_n: z
+    .number()
+    .int("Number must be an integer")
+    .min(1, "Number must be at least 1")
+    .max(100, "Number must not exceed 100")
+    .default(5)
+    .describe("Сколько новых фраз с наибольшей точной частотностью каждой запрошенной фразы расширять в следующем круге (по умолчанию 5)"),
+  num: NumSchema
+    .describe(`Количество строк на один запрос к API (по умолчанию ${DEFAULT_NUM}, максимум ${schemaLimits.max_num})`),
+  max_requests: budget(500, 20, "Бюджет запросов к API на весь вызов (по умолчанию 20, максимум 500)"),
+  max_rows: budget(100000, 2000, "Остановиться, когда собрано столько фраз; результат обрезается до этого числа (по умолчанию 2000)"),
+  filters: KeywordFiltersSchema
+    .optional()
+    .describe("Фильтры по полученным строкам; отфильтрованные фразы не попадают в результат и не расширяются"),
+  classify: ClassifySchema,
+  ...ArrangeShape,
+  bypass_cache: BypassCacheSchema,
+}).strict();
+
+export type ExpandKeywordsInput = z.infer<typeof ExpandKeywordsSchema>;
@@ -0,0 +1,25 @@
+import { z } from "zod";
+import { EXPORT_FORMATS, CSV_DELIMITERS } from "../services/export.js";
+
+export const ExportSchema = z.object({
+  report_id: z
+    .string()
+    .min(1, "Report id must not be empty")
+    .describe("report_id отчета, полученного от другого инструмента (хранится 30 минут)"),
+  format: z
+    .enum(EXPORT_FORMATS)
+    .default("xlsx")
+    .describe("Формат файла: 'xlsx', 'csv' (RFC 4180), 'jsonl' (JSON Lines) или 'markdown' (по умолчанию: xlsx)"),
+  filename: z
+    .string()
+    .max(100, "Filename must not exceed 100 characters")
+    .regex(/^[\wа-яёА-ЯЁ-][\wа-яёА-ЯЁ. -]*$/, "Filename may contain only letters, digits, spaces, '.', '_' and '-', and must not start with '.'")
+    .optional()
+    .describe("Имя файла без каталога; расширение добавляется автоматически (по умолчанию: bukvarix-<тип строк>-<время>-<id>)"),
+  csv_delimiter: z
+    .enum(CSV_DELIMITERS)
+    .default(",")
+    .describe("Разделитель полей для csv: ',', ';' или 'tab' (по умолчанию: ',')"),
+}).strict();
+
+export type ExportInput = z.infer<typeof ExportSchema>;
@@ -0,0 +1,34 @@
+import { z } from "zod";
+import { DEFAULT_NUM, MAX_FAMILY_HOSTS } from "../constants.js";
+import { schemaLimits } from "../services/plans.js";
+import { RegionEnum, DomainInputSchema, StripWwwSchema, ClassifySchema, ArrangeShape, NumSchema, BypassCacheSchema } from "./common.js";
+
+export const SiteFamilySchema = z.object({
+  domain: DomainInputSchema
+    .describe("Основной домен семейства (example.com); можно вставить URL или IDN в любой записи"),
+  hosts: z
+    .array(DomainInputSchema)
+    .min(1, "At least one host is required")
+    .max(MAX_FAMILY_HOSTS, `Maximum ${MAX_FAMILY_HOSTS} hosts`)
+    .describe(`Поддомены и зеркала: полное имя ('shop.example.com', 'example-shop.ru') или метка поддомена ('shop' значит shop.<domain>), до ${MAX_FAMILY_HOSTS}`),
+  strip_www: StripWwwSchema
+    .describe("Если true, убрать 'www.' в начале основного домена; хосты из hosts берутся как есть (по умолчанию true)"),
+  include_root: z
+    .boolean()
+    .default(true)
+    .describe("Если true, запросить и сам основной домен (по умолчанию true)"),
+  region: RegionEnum
+    .optional()
+    .describe("Регион поисковой машины (по умолчанию: msk - Москва Яндекс)"),
+  num: NumSchema
+    .describe(`Количество ключевых слов каждого хоста (по умолчанию ${DEFAULT_NUM}, максимум ${schemaLimits.max_num})`),
+  cannibalized_only: z
+    .boolean()
+    .default(false)
+    .describe("Если true, вернуть только фразы, по которым ранжируются два и более хоста семейства"),
+  classify: ClassifySchema,
+  ...ArrangeShape,
+  bypass_cache: BypassCacheSchema,
+}).strict();
+
+export type SiteFamilyInput = z.infer<typeof SiteFamilySchema>;
@@ -0,0 +1,41 @@
+import { z } from "zod";
+import { DEFAULT_NUM } from "../constants.js";
+import { schemaLimits } from "../services/plans.js";
+import { RegionEnum, DomainInputSchema, StripWwwSchema, ClassifySchema, ArrangeShape, NumSchema, BypassCacheSchema } from "./common.js";
+
+export const KeywordGapSchema = z.object({
+  domain: DomainInputSchema
+    .describe("Ваш домен (example.com); можно вставить URL или IDN в любой записи"),
+  competitors: z
+    .array(DomainInputSchema)
+    .min(1, "At least 1 competitor is required")
+    .max(schemaLimits.max_domains_compare - 1, `Plan allows maximum ${schemaLimits.max_domains_compare - 1} competitors`)
+    .describe(`Домены конкурентов (от 1 до ${schemaLimits.max_domains_compare - 1} по тарифу; URL и IDN тоже подходят)`),
+  strip_www: StripWwwSchema,
+  region: RegionEnum
+    .optional()
+    .describe("Регион поисковой машины (по умолчанию: msk - Москва Яндекс)"),
+  num: NumSchema
+    .describe(`Количество ключевых слов каждого домена (по умолчанию ${DEFAULT_NUM}, максимум ${schemaLimits.max_num})`),
+  min_position_gap: z
+    .number()
+    .int("Position gap must be an integer")
+    .min(1, "Position gap must be at least 1")
+    .default(10)
+    .describe("На сколько позиций ваш домен должен быть ниже лучшего конкурента, чтобы фраза считалась разрывом (по умолчанию 10)"),
+  min_competitors: z
+    .number()
+    .int("Number must be an integer")
+    .min(1, "Number must be at least 1")
+    .default(1)
+    .describe("Минимальное количество конкурентов, ранжирующихся по фразе (по умолчанию 1)"),
+  exact_missing: z
+    .boolean()
+    .default(false)
+    .describe("Если true, проверить разрывы 'missing' через /v1/site_cmp/ (один запрос на каждого конкурента) и пометить непроверенные фразы missing_verified=false"),
+  classify: ClassifySchema,
+  ...ArrangeShape,
+  bypass_cache: BypassCacheSchema,
+}).strict();
+
+export type KeywordGapInput = z.infer<typeof KeywordGapSchema>;
@@ -1,18 +1,18 @@
 import { z } from "zod";
-import { FORMATS, REPORT_TYPES, MAX_NUM, DEFAULT_NUM, MAX_QUERIES_FREE, MAX_EXCLUSIONS_FREE } from "../constants.js";
+import { FORMATS, REPORT_TYPES, DEFAULT_NUM } from "../constants.js";
+import { schemaLimits } from "../services/plans.js";
+import { RegionEnum, KeywordFiltersSchema, ClassifySchema, ArrangeShape, NumSchema, BypassCacheSchema } from "./common.js";
 
 export const SearchKeywordsSchema = z.object({
   query: z
     .string()
     .min(1, "Query must not be empty")
     .describe("Ключевое слово или фраза для поиска (поддерживает спецсимволы: *, !, ~)"),
-  num: z
-    .number()
-    .int("Number must be an integer")
-    .min(1, "Number must be at least 1")
-    .max(MAX_NUM, `Number must not exceed ${MAX_NUM}`)
-    .default(DEFAULT_NUM)
-    .describe(`Количество строк в отчете (по умолчанию ${DEFAULT_NUM}, максимум ${MAX_NUM})`),
+  region: RegionEnum
+    .optional()
+    .describe("Регион поисковой машины, для которого считаются частоты (по умолчанию: msk - Москва Яндекс)"),
+  num: NumSchema
+    .describe(`Количество строк в отчете (по умолчанию ${DEFAULT_NUM}, максимум ${schemaLimits.max_num})`),
   format: z
     .enum(FORMATS)
     .default("json")
@@ -25,30 +25,39 @@ export const SearchKeywordsSchema = z.object({
     .boolean()
     .default(false)
     .describe("Если true, вернуть только общее количество результатов без данных"),
+  filters: KeywordFiltersSchema
+    .optional()
+    .describe("Фильтры по полученным строкам: слова и минус-слова с учетом словоформ, длина, частотность, регулярные выражения, намерение"),
+  classify: ClassifySchema,
+  ...ArrangeShape,
+  bypass_cache: BypassCacheSchema,
 }).strict();
 
 export const SearchKeywordsBatchSchema = z.object({
   queries: z
     .array(z.string().min(1, "Query must not be empty"))
     .min(1, "At least one query is required")
-    .max(MAX_QUERIES_FREE, `Free API allows maximum ${MAX_QUERIES_FREE} queries`)
-    .describe(`Список ключевых слов для поиска (каждое с новой строки, максимум ${MAX_QUERIES_FREE} для бесплатного API)`),
+    .describe("Список ключевых слов для поиска (любой длины; списки длиннее лимита тарифа разбиваются на части)"),
   exclusions: z
     .array(z.string().min(1, "Exclusion must not be empty"))
-    .max(MAX_EXCLUSIONS_FREE, `Free API allows maximum ${MAX_EXCLUSIONS_FREE} exclusions`)
+    .max(schemaLimits.max_exclusions, `Plan allows maximum ${schemaLimits.max_exclusions} exclusions`)
     .optional()
-    .describe(`Список слов-исключений (максимум ${MAX_EXCLUSIONS_FREE} для бесплатного API)`),
-  num: z
-    .number()
-    .int("Number must be an integer")
-    .min(1, "Number must be at least 1")
-    .max(MAX_NUM, `Number must not exceed ${MAX_NUM}`)
-    .default(DEFAULT_NUM)
-    .describe(`Количество строк в отчете (по умолчанию ${DEFAULT_NUM}, максимум ${MAX_NUM})`),
+    .describe(`Список слов-исключений (максимум ${schemaLimits.max_exclusions} по тарифу)`),
+  region: RegionEnum
+    .optional()
+    .describe("Регион поисковой машины, для которого считаются частоты (по умолчанию: msk - Москва Яндекс)"),
+  num: NumSchema
+    .describe(`Количество строк в отчете (по умолчанию ${DEFAULT_NUM}, максимум ${schemaLimits.max_num})`),
   format: z
     .enum(FORMATS)
     .default("json")
     .describe("Формат данных: 'txt' (список), 'json' (массив), 'csv' (точка с запятой), 'tsv' (табуляция)"),
+  filters: KeywordFiltersSchema
+    .optional()
+    .describe("Фильтры по полученным строкам: слова и минус-слова с учетом словоформ, длина, частотность, регулярные выражения, намерение"),
+  classify: ClassifySchema,
+  ...ArrangeShape,
+  bypass_cache: BypassCacheSchema,
 }).strict();
 
 export type SearchKeywordsInput = z.infer<typeof SearchKeywordsSchema>;
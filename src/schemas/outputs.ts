@@ -0,0 +1,391 @@
+import { z } from "zod";
+import { COMPARISON_TYPES } from "../constants.js";
+import { EXPORT_FORMATS } from "../services/export.js";
+import { INTENTS } from "../services/intent.js";
+
+const count = z.number().int().nonnegative();
+
+// Present on rows only when the tool was called with classify=true
+export const KeywordTagsSchema = z.object({
+  intents: z.array(z.enum(INTENTS)),
+  brands: z.array(z.string()),
+  cities: z.array(z.string()),
+});
+
+export const KeywordResultSchema = z.object({
+  keyword: z.string().min(1),
+  words_count: count,
+  chars_count: count,
+  broad_frequency: count,
+  exact_frequency: count,
+  tags: KeywordTagsSchema.optional(),
+});
+
+export const DomainKeywordResultSchema = KeywordResultSchema.extend({
+  search_results_count: count,
+  position: count,
+  url: z.string().optional(),
+});
+
+export const ComparisonKeywordResultSchema = DomainKeywordResultSchema.extend({
+  position2: count.optional(),
+});
+
+export const ApiErrorSchema = z.object({
+  code: z.enum(["AUTH", "QUOTA", "RATE_LIMIT", "UPSTREAM", "NETWORK", "VALIDATION"]),
+  status: z.number().int(),
+  message: z.string(),
+  details: z.string().optional(),
+  retryable: z.boolean(),
+});
+
+// Set by tools that split oversized inputs into several API calls
+const ChunkInfoSchema = z.object({
+  chunks: z.number().int().positive().optional(),
+  failed_chunks: z.array(z.object({
+    chunk: z.number().int().positive(),
+    items: z.array(z.string()),
+    error: ApiErrorSchema,
+  })).optional(),
+});
+
+// Rows dropped by the 'filters' argument
+const FilterInfoSchema = z.object({
+  filtered_out: count.optional(),
+});
+
+// Per-group totals when the tool is called with group_by, in the order the groups' rows appear
+const ArrangeInfoSchema = z.object({
+  aggregates: z.array(z.object({
+    group: z.string(),
+    keywords: count,
+    broad_frequency: count,
+    exact_frequency: count,
+  })).optional(),
+});
+
+// 'keywords' holds the rows of the returned page; 'total' counts the whole report.
+// 'report_id' names the stored report for bukvarix_cluster_keywords
+const PageInfoSchema = z.object({
+  report_id: z.string().optional(),
+  page: z.number().int().positive().optional(),
+  pages: z.number().int().positive().optional(),
+  next_cursor: z.string().optional(),
+});
+
+// 'keywords' is omitted when the tool is called with result_count=true
+export const SearchKeywordsOutputSchema = PageInfoSchema.merge(FilterInfoSchema).merge(ArrangeInfoSchema).extend({
+  total: count,
+  query: z.string().optional(),
+  region: z.string().optional(),
+  keywords: z.array(KeywordResultSchema).optional(),
+});
+
+export const SearchKeywordsBatchOutputSchema = PageInfoSchema.merge(ChunkInfoSchema).merge(FilterInfoSchema).merge(ArrangeInfoSchema).extend({
+  total: count,
+  region: z.string().optional(),
+  keywords: z.array(KeywordResultSchema),
+});
+
+// 'domain' is the normalized host; 'domain_input' is the argument as passed, when it
+// differs, and 'domain_punycode' the ASCII form of an internationalized domain
+export const GetDomainKeywordsOutputSchema = PageInfoSchema.merge(FilterInfoSchema).merge(ArrangeInfoSchema).extend({
+  total: count,
+  domain: z.string(),
+  domain_input: z.string().optional(),
+  domain_punycode: z.string().optional(),
+  region: z.string().optional(),
+  snapshot_date: z.string().optional(),
+  keywords: z.array(DomainKeywordResultSchema).optional(),
+});
+
+// 'domains_input' lists the arguments as passed when any of them was normalized
+export const CompareDomainsOutputSchema = PageInfoSchema.merge(ChunkInfoSchema).merge(FilterInfoSchema).merge(ArrangeInfoSchema).extend({
+  total: count,
+  domains: z.array(z.string()),
+  domains_input: z.array(z.string()).optional(),
+  comparison_type: z.enum(COMPARISON_TYPES),
+  region: z.string().optional(),
+  keywords: z.array(ComparisonKeywordResultSchema).optional(),
+});
+
+export const RegionSweepRowSchema = z.object({
+  keyword: z.string().min(1),
+  words_count: count,
+  chars_count: count,
+  regions: z.record(z.object({
+    position: count.optional(),
+    broad_frequency: count,
+    exact_frequency: count,
+  })),
+  missing_regions: z.array(z.string()),
+  tags: KeywordTagsSchema.optional(),
+});
+
+// 'coverage' counts the keywords found in each region that was fetched
+export const RegionSweepOutputSchema = PageInfoSchema.merge(ChunkInfoSchema).merge(ArrangeInfoSchema).extend({
+  total: count,
+  domain: z.string().optional(),
+  query: z.string().optional(),
+  regions: z.array(z.string()),
+  coverage: z.record(count),
+  keywords: z.array(RegionSweepRowSchema),
+});
+
+export const CompetitorMatrixRowSchema = KeywordResultSchema.extend({
+  positions: z.record(count),
+  domains_count: count,
+});
+
+export const UniqueKeywordRowSchema = KeywordResultSchema.extend({
+  domain: z.string(),
+  position: count,
+});
+
+// 'coverage' counts the keywords fetched per domain, 'unique' those no other domain ranks for;
+// 'unique_keywords' points at the separately paged report that lists them
+export const CompetitorMatrixOutputSchema = PageInfoSchema.merge(ChunkInfoSchema).merge(ArrangeInfoSchema).extend({
+  total: count,
+  domains: z.array(z.string()),
+  region: z.string().optional(),
+  coverage: z.record(count),
+  unique: z.record(count),
+  unique_keywords: z.object({
+    report_id: z.string(),
+    total: count,
+    pages: count,
+    cursor: z.string(),
+    omitted: count,
+  }),
+  overlap: z.array(z.object({
+    domain1: z.string(),
+    domain2: z.string(),
+    common: count,
+    source: z.enum(["api", "rows"]),
+  })),
+  keywords: z.array(CompetitorMatrixRowSchema),
+});
+
+export const KeywordGapRowSchema = KeywordResultSchema.extend({
+  gap_type: z.enum(["missing", "lower"]),
+  position: count.optional(),
+  best_competitor_position: count,
+  competitor_positions: z.record(count),
+  competitors_count: count,
+  score: count,
+  missing_verified: z.boolean().optional(),
+});
+
+// 'groups' counts the gaps by how many competitors share them
+export const KeywordGapOutputSchema = PageInfoSchema.merge(ChunkInfoSchema).merge(ArrangeInfoSchema).extend({
+  total: count,
+  domain: z.string(),
+  competitors: z.array(z.string()),
+  region: z.string().optional(),
+  missing: count,
+  lower: count,
+  // "rows": missing from your fetched rows only; "api": checked with /v1/site_cmp/
+  missing_source: z.enum(["rows", "api"]),
+  unverified: count.optional(),
+  groups: z.array(z.object({
+    competitors_count: count,
+    keywords: count,
+  })),
+  keywords: z.array(KeywordGapRowSchema),
+});
+
+export const KeywordClusterSchema = z.object({
+  head: z.string(),
+  lemmas: z.array(z.string()),
+  size: count,
+  broad_frequency: count,
+  exact_frequency: count,
+  members: z.array(z.string()),
+});
+
+// 'keywords_count' counts the clustered phrases, 'total' the clusters
+export const ClusterKeywordsOutputSchema = PageInfoSchema.extend({
+  total: count,
+  query: z.string().optional(),
+  region: z.string().optional(),
+  source_report_id: z.string().optional(),
+  method: z.enum(["lemma", "ngram"]),
+  threshold: z.number(),
+  keywords_count: count,
+  clusters: z.array(KeywordClusterSchema),
+});
+
+// Most specific row schema first: zod strips unknown keys from the first match
+// Cluster reports page 'clusters' instead of 'keywords' rows
+export const PositionChangeRowSchema = KeywordResultSchema.extend({
+  change: z.enum(["new", "lost", "up", "down", "unchanged"]),
+  position_from: count.optional(),
+  position_to: count.optional(),
+  delta: z.number().int().optional(),
+  visibility_delta: z.number(),
+});
+
+export const PositionChangesOutputSchema = PageInfoSchema.merge(ArrangeInfoSchema).extend({
+  total: count,
+  domain: z.string(),
+  region: z.string(),
+  from: z.string(),
+  to: z.string(),
+  snapshots: z.array(z.string()),
+  gained: count,
+  lost: count,
+  up: count,
+  down: count,
+  unchanged: count,
+  visibility_from: z.number(),
+  visibility_to: z.number(),
+  visibility_change_percent: z.number().optional(),
+  keywords: z.array(PositionChangeRowSchema),
+});
+
+export const ExpandedKeywordRowSchema = KeywordResultSchema.extend({
+  seed: z.string(),
+  parent: z.string().optional(),
+  depth: count,
+});
+
+// 'requests' counts API calls made, 'pending' the queued phrases left unqueried when the crawl stopped
+export const ExpandKeywordsOutputSchema = PageInfoSchema.merge(ChunkInfoSchema).merge(FilterInfoSchema).merge(ArrangeInfoSchema).extend({
+  total: count,
+  seeds: z.array(z.string()),
+  region: z.string().optional(),
+  rounds: count,
+  requests: count,
+  stopped_by: z.enum(["depth", "requests", "rows", "exhausted"]),
+  pending: count,
+  keywords: z.array(ExpandedKeywordRowSchema),
+});
+
+export const SiteFamilyRowSchema = KeywordResultSchema.extend({
+  host: z.string(),
+  position: count,
+  url: z.string().optional(),
+  positions: z.record(count),
+  hosts_count: count,
+  cannibalized: z.boolean(),
+});
+
+// 'coverage' counts the keywords fetched per host, 'best' those each host ranks best for
+export const SiteFamilyOutputSchema = PageInfoSchema.merge(ChunkInfoSchema).merge(ArrangeInfoSchema).extend({
+  total: count,
+  domain: z.string(),
+  hosts: z.array(z.string()),
+  region: z.string().optional(),
+  coverage: z.record(count),
+  best: z.record(count),
+  cannibalized: count,
+  overlap: z.array(z.object({
+    host1: z.string(),
+    host2: z.string(),
+    keywords: count,
+  })),
+  keywords: z.array(SiteFamilyRowSchema),
+});
+
+export const OverviewKeywordRowSchema = DomainKeywordResultSchema.extend({
+  traffic: z.number().nonnegative(),
+  branded: z.boolean(),
+});
+
+export const DomainOverviewOutputSchema = PageInfoSchema.merge(ArrangeInfoSchema).extend({
+  total: count,
+  domain: z.string(),
+  region: z.string().optional(),
+  total_keywords: count,
+  analysed_keywords: count,
+  traffic_estimate: count,
+  visibility_index: z.number().nonnegative(),
+  ctr_curve: z.array(z.number()),
+  positions: z.array(z.object({
+    bucket: z.string(),
+    keywords: count,
+    share: z.number(),
+    traffic: count,
+  })),
+  branded: z.object({
+    terms: z.array(z.string()),
+    keywords: count,
+    keywords_share: z.number(),
+    traffic: count,
+    traffic_share: z.number(),
+  }),
+  keywords: z.array(OverviewKeywordRowSchema),
+});
+
+export const FetchPageOutputSchema = PageInfoSchema.extend({
+  total: count,
+  page: z.number().int().positive(),
+  pages: z.number().int().positive(),
+  clusters: z.array(KeywordClusterSchema).optional(),
+  unique_keywords: z.array(UniqueKeywordRowSchema).optional(),
+  keywords: z.array(z.union([OverviewKeywordRowSchema, PositionChangeRowSchema, ExpandedKeywordRowSchema, SiteFamilyRowSchema, RegionSweepRowSchema, KeywordGapRowSchema, CompetitorMatrixRowSchema, ComparisonKeywordResultSchema, DomainKeywordResultSchema, KeywordResultSchema])).optional(),
+}).passthrough();
+
+export type SearchKeywordsOutput = z.infer<typeof SearchKeywordsOutputSchema>;
+export type SearchKeywordsBatchOutput = z.infer<typeof SearchKeywordsBatchOutputSchema>;
+export type GetDomainKeywordsOutput = z.infer<typeof GetDomainKeywordsOutputSchema>;
+export type CompareDomainsOutput = z.infer<typeof CompareDomainsOutputSchema>;
+export type RegionSweepOutput = z.infer<typeof RegionSweepOutputSchema>;
+export type CompetitorMatrixOutput = z.infer<typeof CompetitorMatrixOutputSchema>;
+export type KeywordGapOutput = z.infer<typeof KeywordGapOutputSchema>;
+export type ClusterKeywordsOutput = z.infer<typeof ClusterKeywordsOutputSchema>;
+export type PositionChangesOutput = z.infer<typeof PositionChangesOutputSchema>;
+export type ExpandKeywordsOutput = z.infer<typeof ExpandKeywordsOutputSchema>;
+export type SiteFamilyOutput = z.infer<typeof SiteFamilyOutputSchema>;
+export type DomainOverviewOutput = z.infer<typeof DomainOverviewOutputSchema>;
+export type FetchPageOutput = z.infer<typeof FetchPageOutputSchema>;
+
+export const CacheStatsOutputSchema = z.object({
+  enabled: z.boolean(),
+  directory: z.string(),
+  entries: count,
+  expired_entries: count,
+  size_bytes: count,
+  max_bytes: count,
+  max_entries: count,
+  hits: count,
+  misses: count,
+  writes: count,
+  ttl_seconds: z.record(z.number()),
+  endpoints: z.record(count),
+});
+
+export const CacheClearOutputSchema = z.object({
+  removed: count,
+  endpoint: z.string().optional(),
+  expired_only: z.boolean(),
+});
+
+export type CacheStatsOutput = z.infer<typeof CacheStatsOutputSchema>;
+export type CacheClearOutput = z.infer<typeof CacheClearOutputSchema>;
+
+export const ExportOutputSchema = z.object({
+  report_id: z.string(),
+  format: z.enum(EXPORT_FORMATS),
+  path: z.string(),
+  rows: count,
+  columns: z.array(z.string()),
+  bytes: count,
+});
+
+export type ExportOutput = z.infer<typeof ExportOutputSchema>;
+
+export const AccountInfoOutputSchema = z.object({
+  plan: z.string(),
+  limits: z.object({
+    max_queries: count,
+    max_exclusions: count,
+    max_domains_compare: count,
+    max_num: count,
+  }),
+  key_source: z.enum(["header", "profile", "env", "default"]),
+  profile: z.string().optional(),
+  free_key: z.boolean(),
+});
+
+export type AccountInfoOutput = z.infer<typeof AccountInfoOutputSchema>;
@@ -0,0 +1,32 @@
+import { z } from "zod";
+import { DEFAULT_OVERVIEW_NUM } from "../constants.js";
+import { schemaLimits } from "../services/plans.js";
+import { RegionEnum, DomainInputSchema, StripWwwSchema, ClassifySchema, ArrangeShape, NumSchema, BypassCacheSchema } from "./common.js";
+
+export const DomainOverviewSchema = z.object({
+  domain: DomainInputSchema
+    .describe("Домен или поддомен (example.com); можно вставить URL или IDN в любой записи"),
+  strip_www: StripWwwSchema,
+  region: RegionEnum
+    .optional()
+    .describe("Регион поисковой машины (по умолчанию: msk - Москва Яндекс)"),
+  num: NumSchema
+    .removeDefault()
+    .default(Math.min(DEFAULT_OVERVIEW_NUM, schemaLimits.max_num))
+    .describe(`Сколько строк домена анализировать (по умолчанию ${DEFAULT_OVERVIEW_NUM}, максимум ${schemaLimits.max_num})`),
+  ctr_curve: z
+    .array(z.number().min(0, "CTR must be between 0 and 1").max(1, "CTR must be between 0 and 1"))
+    .min(1, "CTR curve must not be empty")
+    .max(100, "CTR curve must not exceed 100 positions")
+    .optional()
+    .describe("CTR по позициям начиная с 1-й, доли от 0 до 1; позиции за концом кривой не дают трафика (по умолчанию: ctr_curve из конфигурации или встроенная кривая на 10 позиций)"),
+  brand_terms: z
+    .array(z.string().min(1, "Brand term must not be empty"))
+    .optional()
+    .describe("Написания бренда для разделения брендовых и небрендовых запросов (по умолчанию: список brands из конфигурации и имя домена, например 'wildberries' для wildberries.ru)"),
+  classify: ClassifySchema,
+  ...ArrangeShape,
+  bypass_cache: BypassCacheSchema,
+}).strict();
+
+export type DomainOverviewInput = z.infer<typeof DomainOverviewSchema>;
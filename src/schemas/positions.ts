@@ -0,0 +1,29 @@
+import { z } from "zod";
+import { RegionEnum, DomainInputSchema, StripWwwSchema, ClassifySchema, ArrangeShape } from "./common.js";
+
+const SnapshotDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+export const PositionChangesSchema = z.object({
+  domain: DomainInputSchema
+    .describe("Домен, снимки которого сравниваются; можно вставить URL или IDN в любой записи"),
+  strip_www: StripWwwSchema,
+  region: RegionEnum
+    .optional()
+    .describe("Регион снимков (по умолчанию: msk - Москва Яндекс)"),
+  from: SnapshotDate
+    .optional()
+    .describe("Дата раннего снимка, YYYY-MM-DD (по умолчанию: предыдущий перед 'to')"),
+  to: SnapshotDate
+    .optional()
+    .describe("Дата позднего снимка, YYYY-MM-DD (по умолчанию: последний сохраненный)"),
+  include_unchanged: z
+    .boolean()
+    .default(false)
+    .describe("Если true, включить в отчет фразы, позиция которых не изменилась"),
+  classify: ClassifySchema,
+  ...ArrangeShape,
+}).strict();
+
+export type PositionChangesInput = z.infer<typeof PositionChangesSchema>;
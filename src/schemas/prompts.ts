@@ -0,0 +1,55 @@
+import { z } from "zod";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import { REGIONS, type Region } from "../constants.js";
+import { RegionEnum } from "./common.js";
+
+// Prompt arguments are strings, so lists are passed comma- or newline-separated
+
+const completeRegion = (value: string | undefined) => (Object.keys(REGIONS) as Region[]).filter((region) => region.startsWith(value ?? ""));
+
+const region = (description: string) => completable(RegionEnum.optional().describe(description), completeRegion);
+
+export const SemanticCorePromptArgs = {
+  seeds: z
+    .string()
+    .min(1, "Seeds must not be empty")
+    .describe("Исходные фразы через запятую или с новой строки"),
+  region: region("Регион частот (по умолчанию: msk)"),
+  exclusions: z
+    .string()
+    .optional()
+    .describe("Минус-слова через запятую или с новой строки"),
+  min_exact: z
+    .string()
+    .regex(/^\d+$/, "min_exact must be a whole number")
+    .optional()
+    .describe("Минимальная точная частотность фразы"),
+};
+
+export const CompetitorAuditPromptArgs = {
+  domain: z
+    .string()
+    .min(1, "Domain must not be empty")
+    .describe("Ваш домен"),
+  competitors: z
+    .string()
+    .min(1, "Competitors must not be empty")
+    .describe("Домены конкурентов через запятую или с новой строки"),
+  region: region("Регион позиций (по умолчанию: msk)"),
+};
+
+export const RegionalExpansionPromptArgs = {
+  domain: z
+    .string()
+    .min(1, "Domain must not be empty")
+    .describe("Домен, присутствие которого проверяется по регионам"),
+  home_region: region("Регион, где сайт уже продвигается (по умолчанию: msk)"),
+  regions: z
+    .string()
+    .optional()
+    .describe("Регионы для проверки через запятую (по умолчанию: spb, nsk, ekb, kzn, nnv)"),
+};
+
+export type SemanticCorePromptInput = z.infer<z.ZodObject<typeof SemanticCorePromptArgs>>;
+export type CompetitorAuditPromptInput = z.infer<z.ZodObject<typeof CompetitorAuditPromptArgs>>;
+export type RegionalExpansionPromptInput = z.infer<z.ZodObject<typeof RegionalExpansionPromptArgs>>;
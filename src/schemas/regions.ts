@@ -0,0 +1,27 @@
+import { z } from "zod";
+import { DEFAULT_NUM } from "../constants.js";
+import { schemaLimits } from "../services/plans.js";
+import { RegionEnum, DomainInputSchema, StripWwwSchema, ClassifySchema, ArrangeShape, NumSchema, BypassCacheSchema } from "./common.js";
+
+export const RegionSweepSchema = z.object({
+  domain: DomainInputSchema
+    .optional()
+    .describe("Домен, позиции которого сравниваются по регионам (укажите domain или query); можно вставить URL или IDN"),
+  strip_www: StripWwwSchema,
+  query: z
+    .string()
+    .min(1, "Query must not be empty")
+    .optional()
+    .describe("Ключевое слово или фраза, частоты которой сравниваются по регионам (укажите domain или query)"),
+  regions: z
+    .array(RegionEnum)
+    .min(2, "At least 2 regions are required")
+    .describe("Список регионов для сравнения (от 2)"),
+  num: NumSchema
+    .describe(`Количество строк в отчете для каждого региона (по умолчанию ${DEFAULT_NUM}, максимум ${schemaLimits.max_num})`),
+  classify: ClassifySchema,
+  ...ArrangeShape,
+  bypass_cache: BypassCacheSchema,
+}).strict();
+
+export type RegionSweepInput = z.infer<typeof RegionSweepSchema>;
@@ -0,0 +1,10 @@
+import { z } from "zod";
+
+export const FetchPageSchema = z.object({
+  cursor: z
+    .string()
+    .min(1, "Cursor must not be empty")
+    .describe("Курсор следующей страницы (значение next_cursor из предыдущего ответа)"),
+}).strict();
+
+export type FetchPageInput = z.infer<typeof FetchPageSchema>;
@@ -0,0 +1,1289 @@
+/**
+ * Tool, resource and prompt registrations for the Bukvarix MCP server.
+ *
+ * createServer() builds a fresh McpServer with everything registered. The stdio
+ * transport uses one; the HTTP transport creates one per session. The cache,
+ * rate limiter, report store and snapshots are module-level, so all sessions
+ * share them.
+ */
+
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { SearchKeywordsSchema } from "./schemas/keywords.js";
+import { SearchKeywordsBatchSchema } from "./schemas/keywords.js";
+import { ExpandKeywordsSchema } from "./schemas/expand.js";
+import { GetDomainKeywordsSchema } from "./schemas/domains.js";
+import { CompareDomainsSchema } from "./schemas/domains.js";
+import { FetchPageSchema } from "./schemas/reports.js";
+import { CacheStatsSchema, CacheClearSchema } from "./schemas/cache.js";
+import { AccountInfoSchema } from "./schemas/account.js";
+import { RegionSweepSchema } from "./schemas/regions.js";
+import { CompetitorMatrixSchema } from "./schemas/competitors.js";
+import { KeywordGapSchema } from "./schemas/gap.js";
+import { ClusterKeywordsSchema } from "./schemas/clusters.js";
+import { ExportSchema } from "./schemas/export.js";
+import { PositionChangesSchema } from "./schemas/positions.js";
+import { DomainOverviewSchema } from "./schemas/overview.js";
+import { SiteFamilySchema } from "./schemas/family.js";
+import {
+  SearchKeywordsOutputSchema,
+  SearchKeywordsBatchOutputSchema,
+  ExpandKeywordsOutputSchema,
+  GetDomainKeywordsOutputSchema,
+  CompareDomainsOutputSchema,
+  RegionSweepOutputSchema,
+  CompetitorMatrixOutputSchema,
+  KeywordGapOutputSchema,
+  ClusterKeywordsOutputSchema,
+  PositionChangesOutputSchema,
+  DomainOverviewOutputSchema,
+  SiteFamilyOutputSchema,
+  FetchPageOutputSchema,
+  ExportOutputSchema,
+  CacheStatsOutputSchema,
+  CacheClearOutputSchema,
+  AccountInfoOutputSchema,
+} from "./schemas/outputs.js";
+import { searchKeywords, searchKeywordsBatch } from "./tools/keywords.js";
+import { expandKeywords } from "./tools/expand.js";
+import { getDomainKeywords, compareDomains } from "./tools/domains.js";
+import { regionSweep } from "./tools/regions.js";
+import { competitorMatrix } from "./tools/competitors.js";
+import { keywordGap } from "./tools/gap.js";
+import { clusterKeywords } from "./tools/clusters.js";
+import { positionChanges } from "./tools/positions.js";
+import { domainOverview } from "./tools/overview.js";
+import { siteFamily } from "./tools/family.js";
+import { fetchPage } from "./tools/reports.js";
+import { exportToFile } from "./tools/export.js";
+import { cacheStats, cacheClear } from "./tools/cache.js";
+import { accountInfo } from "./tools/account.js";
+import { REGIONS_URI, readRegions } from "./resources/regions.js";
+import { REPORT_URI_TEMPLATE, listReportResources, completeReportId, readReport } from "./resources/reports.js";
+import {
+  DOMAIN_SNAPSHOT_URI_TEMPLATE,
+  listSnapshotResources,
+  completeSnapshotDomain,
+  completeSnapshotRegion,
+  readDomainSnapshot,
+} from "./resources/domains.js";
+import { SemanticCorePromptArgs, CompetitorAuditPromptArgs, RegionalExpansionPromptArgs } from "./schemas/prompts.js";
+import { semanticCorePrompt, competitorAuditPrompt, regionalExpansionPrompt } from "./prompts/workflows.js";
+import { withCredentials } from "./services/tool-result.js";
+import { progressReporter } from "./services/progress.js";
+import { defaultPlan } from "./services/plans.js";
+import { DEFAULT_CTR_CURVE } from "./services/metrics.js";
+import { REGIONS, DEFAULT_OVERVIEW_NUM, MAX_FAMILY_HOSTS, MAX_UNIQUE_KEYWORDS_PER_DOMAIN } from "./constants.js";
+
+// Args of ClassifySchema and ArrangeShape, shared by every tool that returns keyword rows
+const ROW_ARGS = `  - classify (boolean, optional): If true, tag each keyword with "tags": { intents, brands, cities } by offline rules.
+    Brands come from the config 'brands' list plus the analysed domains. Default: false.
+  - sort_by (string, optional): Order rows by any row field before paging, e.g. 'exact_frequency', 'position',
+    'keyword'; nested fields with dots ('regions.spb.exact_frequency', 'positions.ozon.ru'). Unknown positions (0) go last.
+  - sort_order ('asc' | 'desc', optional): Default: 'asc' for text and positions, 'desc' for numbers.
+  - group_by ('first_word' | 'words_count' | 'position_bucket', optional): Gather rows into groups, the group with
+    the highest exact frequency first. 'position_bucket' (1-3, 4-10, 11-50, 51+, unranked) needs rows with positions.
+  - aggregate ('sum' | 'avg', optional): How group frequencies are totalled in "aggregates". Default: 'sum'.`;
+
+export function createServer(): McpServer {
+  const server = new McpServer({
+    name: "bukvarix-mcp-server",
+    version: "1.0.0",
+  });
+
+  server.registerTool(
+    "bukvarix_search_keywords",
+    {
+      title: "Search Keywords",
+      description: `Search for keywords using a single query phrase.
+
+This tool searches Bukvarix database for keywords matching the query. Supports special syntax:
+- Wildcard: "строител* товары" (matches: строительные товары, товары для строительства)
+- Exclusions: "!строительные !товары" (excludes phrases containing these words)
+- Special characters (*, !, ~) are automatically percent-encoded
+
+Args:
+  - query (string, required): Keyword or phrase to search. Supports special characters: * (wildcard), ! (exclusion), ~ (synonyms). Must not be empty.
+  - region (string, optional): Search engine region the frequencies are counted for. Default: 'msk' (Moscow Yandex).
+    Available regions: ${Object.keys(REGIONS).join(", ")}
+  - num (number, optional): Number of results to return. Range: 1-${defaultPlan.max_num.toLocaleString("en-US")}. Default: 250.
+  - format ('txt' | 'json' | 'csv' | 'tsv', optional): Output format. Default: 'json'.
+    - 'json': Structured data as object with 'data' array
+    - 'txt': Simple list of keywords, one per line
+    - 'csv': Table with semicolon delimiter, quoted text values
+    - 'tsv': Table with tab delimiter, unquoted text values
+  - report_type ('report' | 'word_analysis', optional): Report type. Default: 'report'.
+    - 'report': Standard keyword report
+    - 'word_analysis': Word analysis report
+  - result_count (boolean, optional): If true, return only total count without data. Default: false.
+  - filters (object, optional): Client-side filters applied to the fetched rows. All given conditions must hold.
+    - include_words (string[]): Keep phrases containing any of the words, matched by lemma ("купить" also
+      matches "купила"). A multi-word entry needs all its words.
+    - exclude_words (string[]): Drop phrases containing any of the words (negative keywords), matched by lemma.
+    - min_words / max_words, min_chars / max_chars, min_broad / max_broad, min_exact / max_exact (number): Ranges.
+    - regex / exclude_regex (string): Keep / drop phrases matching the pattern (case-insensitive).
+    - intent ('commercial' | 'informational' | 'navigational' | 'local'): Keep phrases with intent markers
+      (commercial: купить, цена, доставка, ...; informational: как, что такое, своими руками, ...;
+      navigational: официальный сайт, вход, a brand or a domain; local: рядом, адрес, a city name).
+    - branded (boolean): Keep only (true) or drop (false) phrases with a brand: the config 'brands'
+      list plus the analysed domains' names.
+    - geo (boolean): Keep only (true) or drop (false) phrases with a city name (Москва, спб, ...).
+    Cannot be combined with result_count=true. The structured result reports "filtered_out".
+    With format 'txt' frequencies are 0, so frequency ranges drop every row.
+${ROW_ARGS}
+  - bypass_cache (boolean, optional): If true, skip the response cache and fetch fresh data. Default: false.
+    Responses are cached on disk (keyword queries for 1 day, domain data for 7 days).
+
+Returns:
+  Response format depends on 'format' parameter and 'result_count' flag:
+  
+  If result_count=true:
+  - Text: "Total results found: {count}"
+  - Structured: { "total": number, "query": string, "region"?: string }
+  
+  If result_count=false, structured content is always (whatever the format):
+  {
+    "query": string,
+    "region"?: string,
+    "total": number,
+    "keywords": [
+      { keyword, words_count, chars_count, broad_frequency, exact_frequency },
+      ...
+    ]
+  }
+  Where:
+  - keyword (string): Keyword phrase
+  - words_count (number): Number of words in phrase
+  - chars_count (number): Number of characters in phrase
+  - broad_frequency (number): Broad frequency worldwide
+  - exact_frequency (number): Exact frequency worldwide
+  - tags (object, with classify=true): { intents: string[], brands: string[], cities: string[] }
+
+  'format' selects the wire format and the text rendering: 'json' is a numbered list,
+  'txt' a plain list, 'csv'/'tsv' a table. 'txt' carries phrases only, so frequencies are 0.
+  
+  Large responses (>25,000 chars) are paged on row boundaries. The full report is kept
+  server-side for 30 minutes; the result carries "page", "pages" and "next_cursor".
+  Pass next_cursor to bukvarix_fetch_page to get the following page. sort_by and group_by apply
+  before paging, so the first page holds the top rows. With group_by the result also carries
+  "aggregates": [{ group, keywords, broad_frequency, exact_frequency }] in the order of the rows.
+
+Examples:
+  - "Find keywords for 'пластиковые окна'" -> { query: "пластиковые окна", num: 10 }
+  - "Search keywords starting with 'строитель'" -> { query: "строитель*", num: 50 }
+  - "Get count only" -> { query: "окна", result_count: true }
+  - "Frequencies for St. Petersburg" -> { query: "окна", region: "spb" }
+  - "Commercial phrases without 'бу'" -> { query: "окна", filters: { intent: "commercial", exclude_words: ["бу"] } }
+  - "Export to CSV" -> { query: "окна", format: "csv", num: 100 }
+  - "Longest phrases first, grouped by first word" -> { query: "окна", sort_by: "words_count", group_by: "first_word" }
+  
+  Don't use when: You need to search multiple queries (use bukvarix_search_keywords_batch instead)
+  or compare one query across regions (use bukvarix_region_sweep instead)
+
+Error Handling:
+  Errors are returned with isError: true and structured content
+  { "error": { "code", "status", "message", "details"?, "retryable" } }.
+  - 400: VALIDATION "Error: Invalid request" - Check query format and parameters
+  - 401: AUTH "Error: Authentication failed" - Check the API key (X-Bukvarix-Api-Key header, config profile and its X-Bukvarix-Profile-Token, or BUKVARIX_API_KEY)
+  - 402: QUOTA "Error: Limit exceeded" - Plan limits exceeded, reduce 'num' parameter
+  - 429: RATE_LIMIT "Error: Rate limit exceeded" - Retried automatically; wait before making more requests
+  - 500: UPSTREAM "Error: Internal server error" - Contact Bukvarix support
+  - 502, 503, 504: UPSTREAM "Error: Server maintenance" - Retried automatically; try again later
+  - Timeouts and connection failures: NETWORK (retryable)`,
+      inputSchema: SearchKeywordsSchema,
+      outputSchema: SearchKeywordsOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params, extra) => {
+      return await withCredentials(extra, () => searchKeywords(params));
+    }
+  );
+
+  server.registerTool(
+    "bukvarix_search_keywords_batch",
+    {
+      title: "Search Keywords (Batch)",
+      description: `Search for keywords using multiple query phrases with optional exclusions.
+
+This tool performs extended search using a list of keywords. Each query phrase is processed separately.
+Plan '${defaultPlan.name}' allows up to ${defaultPlan.max_queries} queries per API call and ${defaultPlan.max_exclusions} exclusions
+(see bukvarix_account_info). Longer query lists are split into plan-sized chunks, run with
+bounded concurrency (BUKVARIX_CHUNK_CONCURRENCY, default 2), and the rows are merged and
+de-duplicated. Progress is reported through MCP progress notifications when the client
+sends a progressToken.
+
+Args:
+  - queries (string[], required): List of keywords to search. Minimum 1, no maximum (chunked by plan).
+    Each query supports special syntax (*, !, ~). Empty strings are not allowed.
+  - exclusions (string[], optional): List of words/phrases to exclude. Maximum ${defaultPlan.max_exclusions} on the current plan.
+    Exclusions beyond the plan limit are rejected. Empty strings are not allowed.
+  - region (string, optional): Search engine region. Default: 'msk' (Moscow Yandex). See bukvarix_search_keywords.
+  - num (number, optional): Number of results to return. Range: 1-${defaultPlan.max_num.toLocaleString("en-US")}. Default: 250.
+  - format ('txt' | 'json' | 'csv' | 'tsv', optional): Output format. Default: 'json'.
+    See bukvarix_search_keywords for format details.
+  - filters (object, optional): Client-side filters on the fetched rows (lemma-matched words and negative
+    words, length and frequency ranges, regex, intent, branded, geo). See bukvarix_search_keywords.
+${ROW_ARGS}
+  - bypass_cache (boolean, optional): If true, skip the response cache and fetch fresh data. Default: false.
+
+Returns:
+  Same structure as bukvarix_search_keywords. Response includes keywords matching any query in the list,
+  excluding phrases matching any exclusion term.
+  
+  Structured content:
+  {
+    "total": number,
+    "keywords": [
+      { keyword, words_count, chars_count, broad_frequency, exact_frequency },
+      ...
+    ]
+  }
+
+Examples:
+  - "Find keywords for multiple phrases" -> { queries: ["окна", "двери"], num: 20 }
+  - "Search with exclusions" -> { queries: ["окна"], exclusions: ["деревянные", "старые"] }
+  - "Batch search 50 phrases" -> { queries: ["phrase1", ..., "phrase50"], num: 100 }
+  - "With region" -> { queries: ["окна", "двери"], region: "ekb" }
+  
+  Don't use when: You only need to search one phrase (use bukvarix_search_keywords instead)
+
+Error Handling:
+  - 400: "Error: Invalid request" - Check queries/exclusions format
+  - 402: "Error: Limit exceeded" - More than ${defaultPlan.max_exclusions} exclusions
+  - If some chunks fail, the rows of the others are returned and "failed_chunks" lists
+    the failed chunks with their queries and error; the call fails only if every chunk fails
+  - 429: "Error: Rate limit exceeded" - Wait before retrying
+  - Other errors: See bukvarix_search_keywords error handling`,
+      inputSchema: SearchKeywordsBatchSchema,
+      outputSchema: SearchKeywordsBatchOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params, extra) => {
+      return await withCredentials(extra, () => searchKeywordsBatch(params, progressReporter(extra)));
+    }
+  );
+
+  server.registerTool(
+    "bukvarix_expand_keywords",
+    {
+      title: "Expand Keywords",
+      description: `Grow a keyword list from seed phrases by querying the best results again, round after round.
+
+Round 1 queries every seed with /v1/keywords/. Each later round queries the top_n new phrases
+(by exact frequency) found by each phrase of the previous round. Phrases are de-duplicated across
+rounds, so each is queried once and reported once, with the seed and the phrase that found it.
+The crawl stops at the first of: 'depth' rounds, 'max_requests' API calls, 'max_rows' phrases
+collected, or a round that finds nothing new. Every request counts against the API quota, so keep
+the budget small and raise it only when the result says the crawl was cut short.
+Progress is reported per round through MCP progress notifications when the client sends a progressToken.
+
+Args:
+  - seeds (string[], required): Starting phrases. Special syntax (*, !, ~) is passed to the API
+  - exclusions (string[], optional): Negative words, matched by lemma. Phrases containing them are
+    dropped and never expanded
+  - region (string, optional): Search engine region. Default: 'msk' (Moscow Yandex)
+  - depth (number, optional): Rounds, 1-5. 1 queries only the seeds. Default: 2
+  - top_n (number, optional): New phrases per queried phrase to expand in the next round, 1-100. Default: 5
+  - num (number, optional): Rows per API request. Range: 1-${defaultPlan.max_num.toLocaleString("en-US")}. Default: 250
+  - max_requests (number, optional): API request budget, 1-500. Default: 20
+  - max_rows (number, optional): Stop once this many phrases are collected; the result is cut to it. Default: 2000
+  - filters (object, optional): Client-side filters (see bukvarix_search_keywords). Filtered phrases are
+    dropped and never expanded, so e.g. min_exact also keeps the crawl on frequent phrases
+${ROW_ARGS}
+  - bypass_cache (boolean, optional): If true, skip the response cache. Default: false
+
+Returns:
+  {
+    "seeds": string[], "region": string,
+    "rounds": number,               // Rounds run
+    "requests": number,             // API requests made
+    "stopped_by": "depth" | "requests" | "rows" | "exhausted",
+    "pending": number,              // Queued phrases left unqueried
+    "total": number,
+    "keywords": [
+      { keyword, words_count, chars_count, broad_frequency, exact_frequency,
+        "seed": string,             // Seed the phrase descends from
+        "parent": string,           // Phrase whose results contained it; absent for seeds
+        "depth": number }           // 0 for seeds, 1 for results of seeds, ...
+    ],
+    "failed_chunks": [{ "chunk", "items", "error" }]   // Failed requests, if any
+  }
+  Keywords are ordered by depth, then by exact frequency. Follow 'parent' to trace a phrase back to
+  its seed. Large results are paged (see bukvarix_fetch_page).
+
+Examples:
+  - "Build out 'пластиковые окна'" -> { seeds: ["пластиковые окна"] }
+  - "Deeper crawl, frequent phrases only" -> { seeds: ["ремонт квартир"], depth: 3, top_n: 10, max_requests: 60, filters: { min_exact: 50 } }
+  - "Skip DIY phrases" -> { seeds: ["ламинат"], exclusions: ["своими руками", "видео"] }
+
+  Don't use when: You already have the full phrase list (use bukvarix_search_keywords_batch)
+
+Error Handling:
+  - Failed requests are listed in "failed_chunks" (one per phrase) and the crawl goes on without them;
+    the call fails only if every request fails
+  - Other errors: See bukvarix_search_keywords error handling`,
+      inputSchema: ExpandKeywordsSchema,
+      outputSchema: ExpandKeywordsOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params, extra) => {
+      return await withCredentials(extra, () => expandKeywords(params, progressReporter(extra)));
+    }
+  );
+
+  server.registerTool(
+    "bukvarix_get_domain_keywords",
+    {
+      title: "Get Domain Keywords",
+      description: `Get keywords for a specific domain or subdomain.
+
+This tool retrieves keywords that the domain ranks for in search engines (Yandex or Google).
+You can specify a domain, a subdomain or a URL. Cyrillic domains (.рф, .укр) are supported.
+
+Args:
+  - domain (string, required): Domain, subdomain or URL.
+    Examples: "example.com", "subdomain.example.com", "кто.рф", "https://www.example.com/catalog"
+    The scheme, port, path and query are dropped and the host is lower-cased. Internationalized
+    domains may be given in Unicode or punycode ("xn--j1ail.xn--p1ai") and are sent in Unicode.
+    The top-level domain must be letters (or punycode); "localhost" or IP addresses are rejected.
+  - strip_www (boolean, optional): If true, drop a leading "www.". Default: true.
+  - region (string, optional): Search engine region. Default: 'msk' (Moscow Yandex).
+    Available regions: ${Object.keys(REGIONS).join(", ")}
+    Format: lowercase code (e.g., 'msk', 'spb', 'rus', 'gmsk')
+  - num (number, optional): Number of results to return. Range: 1-${defaultPlan.max_num.toLocaleString("en-US")}. Default: 250.
+  - format ('txt' | 'json' | 'csv' | 'tsv', optional): Output format. Default: 'json'.
+  - result_count (boolean, optional): If true, return only total count. Default: false.
+  - filters (object, optional): Client-side filters on the fetched rows (lemma-matched words and negative
+    words, length and frequency ranges, regex, intent, branded, geo). See bukvarix_search_keywords.
+  - save_snapshot (boolean, optional): If true, save all fetched rows (before filters) as today's snapshot
+    of the domain in the region, for bukvarix_position_changes. A second save on the same day replaces
+    the first. Not available with format 'txt' or result_count. Default: false.
+${ROW_ARGS}
+  - bypass_cache (boolean, optional): If true, skip the response cache and fetch fresh data. Default: false.
+
+Returns:
+  Response format depends on 'format' and 'result_count' parameters.
+  
+  If result_count=true:
+  - Text: "Total keywords found for {domain}: {count}"
+  - Structured: { "total": number, "domain": string, "domain_input": string, "domain_punycode": string }
+  
+  If result_count=false, structured content is always (whatever the format):
+  {
+    "domain": string,                 // Normalized host
+    "domain_input": string,           // The argument as passed, only if normalization changed it
+    "domain_punycode": string,        // ASCII form, only for internationalized domains
+    "region": string (if given),
+    "snapshot_date": string (YYYY-MM-DD, if save_snapshot),
+    "total": number,
+    "keywords": [
+      { keyword, words_count, chars_count, search_results_count, broad_frequency, exact_frequency, position },
+      ...
+    ]
+  }
+  Where:
+  - keyword (string): Keyword phrase
+  - words_count (number): Number of words in phrase
+  - chars_count (number): Number of characters
+  - search_results_count (number): Search results count in Yandex/Google
+  - broad_frequency (number): Broad frequency worldwide
+  - exact_frequency (number): Exact frequency worldwide
+  - position (number): Position in search results (1-based)
+
+Examples:
+  - "Get keywords for wildberries.ru" -> { domain: "wildberries.ru", num: 50 }
+  - "Find keywords for subdomain" -> { domain: "shop.example.com" }
+  - "Get keywords for SPb region" -> { domain: "example.com", region: "spb" }
+  - "Count only" -> { domain: "example.com", result_count: true }
+  - "Cyrillic domain" -> { domain: "кто.рф" } (automatically encoded)
+  - "Pasted URL" -> { domain: "https://www.example.com/catalog?page=2" } (fetches example.com)
+
+Error Handling:
+  - VALIDATION: "Error: '...' is not a valid domain: ..." - Not a host name with a top-level domain
+  - 401: "Error: Authentication failed" - Check BUKVARIX_API_KEY
+  - 402: "Error: Limit exceeded" - Reduce 'num' parameter
+  - 429: "Error: Rate limit exceeded" - Wait before retrying
+  - Other errors: See bukvarix_search_keywords error handling`,
+      inputSchema: GetDomainKeywordsSchema,
+      outputSchema: GetDomainKeywordsOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params, extra) => {
+      return await withCredentials(extra, () => getDomainKeywords(params));
+    }
+  );
+
+  server.registerTool(
+    "bukvarix_compare_domains",
+    {
+      title: "Compare Domains",
+      description: `Compare keywords between multiple domains.
+
+This tool compares keywords across 2 or more domains. Plan '${defaultPlan.name}' compares up to
+${defaultPlan.max_domains_compare} domains per API call; with more domains the first domain is compared with
+plan-sized groups of the others and only keywords common to every group are kept
+(intersection only; 'num' applies to each group).
+For 2 domains, you can specify comparison type (common, unique to first, unique to second).
+For 3+ domains, always returns common keywords (intersection).
+
+Args:
+  - domains (string[], required): List of domains to compare. Minimum 2, no maximum (chunked by plan).
+    Each is a domain or URL, normalized as in bukvarix_get_domain_keywords.
+  - strip_www (boolean, optional): If true, drop a leading "www." from each domain. Default: true.
+  - comparison_type ('intersect' | 'domain1_uniq' | 'domain2_uniq', optional): Comparison type.
+    Only works for exactly 2 domains. Default: 'intersect'. Any other type is rejected with more than
+    ${defaultPlan.max_domains_compare} domains.
+    - 'intersect': Common keywords for all domains (default, always used for 3+ domains)
+    - 'domain1_uniq': Keywords unique to first domain (only for 2 domains)
+    - 'domain2_uniq': Keywords unique to second domain (only for 2 domains)
+  - region (string, optional): Search engine region. Default: 'msk' (Moscow Yandex).
+    Available regions: ${Object.keys(REGIONS).join(", ")}
+  - num (number, optional): Number of results to return. Range: 1-${defaultPlan.max_num.toLocaleString("en-US")}. Default: 250.
+  - format ('txt' | 'json' | 'csv' | 'tsv', optional): Output format. Default: 'json'.
+  - result_count (boolean, optional): If true, return only total count. Default: false.
+    Not available with more than ${defaultPlan.max_domains_compare} domains, where only the top rows of each group are intersected.
+  - filters (object, optional): Client-side filters on the fetched rows (lemma-matched words and negative
+    words, length and frequency ranges, regex, intent, branded, geo). See bukvarix_search_keywords.
+${ROW_ARGS}
+  - bypass_cache (boolean, optional): If true, skip the response cache and fetch fresh data. Default: false.
+
+Returns:
+  Response format depends on 'format' and 'result_count' parameters.
+  
+  If result_count=true:
+  - Text: "Total keywords found: {count}"
+  - Structured: { "total": number, "domains": string[], "comparison_type": string }
+  
+  If result_count=false, structured content is always (whatever the format):
+  {
+    "keywords": [
+      { keyword, words_count, chars_count, search_results_count, broad_frequency, exact_frequency, position, position2 },
+      ...
+    ],
+    "total": number,
+    "domains": ["domain1.com", "domain2.com"],   // Normalized hosts
+    "domains_input": string[],                   // The arguments as passed, only if any was normalized
+    "comparison_type": "intersect"
+  }
+  Where:
+  - position (number): Position for first domain (1-based)
+  - position2 (number): Position for second domain (1-based, only for 2 domains comparison)
+  - Other fields: as in bukvarix_get_domain_keywords
+  
+  Note: For 3+ domains comparison, only position is present (position for first domain).
+
+Examples:
+  - "Compare 2 domains (common)" -> { domains: ["wildberries.ru", "lamoda.ru"], comparison_type: "intersect" }
+  - "Find unique to first" -> { domains: ["wildberries.ru", "lamoda.ru"], comparison_type: "domain1_uniq" }
+  - "Compare 3+ domains" -> { domains: ["domain1.com", "domain2.com", "domain3.com"] }
+  - "With region" -> { domains: ["d1.com", "d2.com"], region: "rus" }
+  - "Count only" -> { domains: ["d1.com", "d2.com"], result_count: true }
+
+Note: comparison_type is ignored when comparing 3+ domains (always uses intersection).
+To find what several competitors rank for and your domain doesn't, use bukvarix_keyword_gap.
+
+Error Handling:
+  - VALIDATION: "Error: '...' is not a valid domain: ..." - See bukvarix_get_domain_keywords
+  - 400: "Error: Invalid request" - Less than 2 domains
+  - 402: "Error: Limit exceeded" - 'num' too large
+  - Chunked comparisons report failed groups in "failed_chunks" (see bukvarix_search_keywords_batch)
+  - 429: "Error: Rate limit exceeded" - Wait before retrying
+  - Other errors: See bukvarix_search_keywords error handling
+
+Don't use when: You need positions of every domain or keywords unique to each of 3+ domains
+(use bukvarix_competitor_matrix instead)`,
+      inputSchema: CompareDomainsSchema,
+      outputSchema: CompareDomainsOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params, extra) => {
+      return await withCredentials(extra, () => compareDomains(params, progressReporter(extra)));
+    }
+  );
+
+  server.registerTool(
+    "bukvarix_competitor_matrix",
+    {
+      title: "Competitor Matrix",
+      description: `Build a keyword overlap matrix for 2 or more competitor domains.
+
+Unlike bukvarix_compare_domains (intersection only, first domain's position only), this tool
+fetches every domain's keywords (/v1/site/, one call per domain) and returns, for each keyword,
+the position of every domain that ranks for it, plus pairwise overlap counts and the number of
+keywords unique to each domain. Plan '${defaultPlan.name}' allows up to ${defaultPlan.max_domains_compare} domains.
+
+Args:
+  - domains (string[], required): 2-${defaultPlan.max_domains_compare} domains, e.g. "example.com". Same format as bukvarix_get_domain_keywords;
+    duplicates after normalization are ignored.
+  - strip_www (boolean, optional): If true, drop a leading "www." from each domain. Default: true.
+  - region (string, optional): Search engine region. Default: 'msk' (Moscow Yandex).
+    Available regions: ${Object.keys(REGIONS).join(", ")}
+  - num (number, optional): Keywords fetched per domain. Range: 1-${defaultPlan.max_num.toLocaleString("en-US")}. Default: 250.
+  - exact_overlap (boolean, optional): If true, pairwise overlap counts come from /v1/site_cmp/
+    (one extra call per pair) and cover the full keyword sets. Default: false (counted in the fetched rows).
+${ROW_ARGS}
+  - bypass_cache (boolean, optional): If true, skip the response cache and fetch fresh data. Default: false.
+
+Returns:
+  {
+    "domains": string[],
+    "region"?: string,
+    "coverage": { [domain]: number },    // Keywords fetched per domain
+    "unique": { [domain]: number },      // Fetched keywords no other domain ranks for
+    "unique_keywords": {                 // Those keywords, stored as their own paged report
+      report_id, total, pages, omitted,  // At most ${MAX_UNIQUE_KEYWORDS_PER_DOMAIN} per domain; 'omitted' counts the rest
+      cursor                             // Page 1 via bukvarix_fetch_page: rows { domain, keyword, position, ... }
+    },
+    "overlap": [ { domain1, domain2, common, source: "api" | "rows" }, ... ],
+    "total": number,
+    "keywords": [
+      { keyword, words_count, chars_count, broad_frequency, exact_frequency,
+        "positions": { [domain]: number }, domains_count },
+      ...
+    ]
+  }
+  Keywords ranking for more domains come first, then by broad frequency. Keywords with
+  domains_count 1 are unique to the single domain in "positions". Only the top 'num' keywords
+  of each domain are considered, so a keyword may look unique while the other domain ranks
+  for it further down. Large results are paged (see bukvarix_fetch_page).
+
+Examples:
+  - "Overlap of three marketplaces" -> { domains: ["wildberries.ru", "lamoda.ru", "ozon.ru"], num: 500 }
+  - "Exact pairwise overlap in SPb" -> { domains: ["a.ru", "b.ru", "c.ru"], region: "spb", exact_overlap: true }
+
+Error Handling:
+  - VALIDATION: more domains than the plan allows
+  - If some domains fail, the matrix is built from the others and "failed_chunks" lists the
+    failed domains; the call fails only if every domain fails. A failed exact_overlap count
+    falls back to source "rows"
+  - Other errors: See bukvarix_search_keywords error handling`,
+      inputSchema: CompetitorMatrixSchema,
+      outputSchema: CompetitorMatrixOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params, extra) => {
+      return await withCredentials(extra, () => competitorMatrix(params, progressReporter(extra)));
+    }
+  );
+
+  server.registerTool(
+    "bukvarix_keyword_gap",
+    {
+      title: "Keyword Gap",
+      description: `Find keywords competitors rank for that your domain doesn't, or ranks much lower for.
+
+Fetches the keywords of your domain and of every competitor (/v1/site/, one call per domain)
+and keeps the keywords where at least 'min_competitors' competitors rank and your domain either
+does not rank ("missing") or ranks at least 'min_position_gap' positions below the best
+competitor ("lower"). "missing" is judged from your top 'num' rows unless exact_missing is set;
+'missing_source' says which. Plan '${defaultPlan.name}' allows up to ${defaultPlan.max_domains_compare - 1} competitors.
+
+Args:
+  - domain (string, required): Your domain. Same format as bukvarix_get_domain_keywords.
+  - competitors (string[], required): 1-${defaultPlan.max_domains_compare - 1} competitor domains. Duplicates and 'domain' itself are ignored.
+  - strip_www (boolean, optional): If true, drop a leading "www." from every domain. Default: true.
+  - region (string, optional): Search engine region. Default: 'msk' (Moscow Yandex).
+    Available regions: ${Object.keys(REGIONS).join(", ")}
+  - num (number, optional): Keywords fetched per domain. Range: 1-${defaultPlan.max_num.toLocaleString("en-US")}. Default: 250.
+  - min_position_gap (number, optional): Positions your domain must trail the best competitor by
+    to count as a "lower" gap. Default: 10.
+  - min_competitors (number, optional): Competitors that must rank for a keyword. Default: 1.
+  - exact_missing (boolean, optional): If true, check "missing" keywords with /v1/site_cmp/ (domain2_uniq,
+    one extra call per competitor, top 'num' rows) and set missing_verified on them; keywords it does not list
+    stay with missing_verified=false and an own position of "?". Default: false
+    ("missing" then only means "not in your top 'num' rows").
+${ROW_ARGS}
+  - bypass_cache (boolean, optional): If true, skip the response cache and fetch fresh data. Default: false.
+
+Returns:
+  {
+    "domain": string,
+    "competitors": string[],
+    "region"?: string,
+    "missing": number,                   // Gaps where your domain does not rank
+    "lower": number,                     // Gaps where it ranks too low
+    "groups": [ { competitors_count, keywords }, ... ],
+    "total": number,
+    "keywords": [
+      { keyword, words_count, chars_count, broad_frequency, exact_frequency,
+        gap_type: "missing" | "lower", position?, best_competitor_position,
+        competitor_positions: { [domain]: number }, competitors_count, score },
+      ...
+    ]
+  }
+  score = exact_frequency / best_competitor_position (rounded). Keywords shared by more
+  competitors come first, then by score. 'position' is your domain's position ("lower" only).
+  Only the top 'num' keywords of each domain are considered, so a "missing" keyword may
+  still rank further down. Large results are paged (see bukvarix_fetch_page).
+
+Examples:
+  - "What do competitors get that we don't?" -> { domain: "my-shop.ru", competitors: ["wildberries.ru", "lamoda.ru"] }
+  - "Gaps shared by all 3 competitors" -> { domain: "my.ru", competitors: ["a.ru", "b.ru", "c.ru"], min_competitors: 3, num: 1000 }
+
+Error Handling:
+  - VALIDATION: no competitor other than 'domain', or more competitors than the plan allows
+  - If your domain cannot be fetched, the call fails. Failed competitors are listed in
+    "failed_chunks" and the gap is computed from the others
+  - Other errors: See bukvarix_search_keywords error handling`,
+      inputSchema: KeywordGapSchema,
+      outputSchema: KeywordGapOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params, extra) => {
+      return await withCredentials(extra, () => keywordGap(params, progressReporter(extra)));
+    }
+  );
+
+  server.registerTool(
+    "bukvarix_cluster_keywords",
+    {
+      title: "Cluster Keywords",
+      description: `Group a keyword list into clusters offline, without SERP data.
+
+Works on a fresh search (/v1/keywords/, same request as bukvarix_search_keywords with
+format 'json', so a cached search costs no API call) or on any report returned in the last
+30 minutes, referenced by its "report_id". Russian words are reduced to lemmas (Snowball
+stemming), so word forms match ("окна", "окнами"). Lemmas present in more than half of the
+phrases (usually the seed query) are ignored when comparing.
+
+Phrases are taken in order of broad frequency; each joins the most similar cluster head at
+or above 'threshold', or starts a new cluster and becomes its head.
+
+Args:
+  - query (string, optional): Phrase to search and cluster. Supports *, !, ~.
+  - report_id (string, optional): "report_id" of an earlier result of another bukvarix_* tool.
+    Pass exactly one of 'query' or 'report_id'.
+  - region (string, optional): Region for the fresh search. Default: 'msk' (Moscow Yandex).
+  - num (number, optional): Rows of the fresh search. Range: 1-${defaultPlan.max_num.toLocaleString("en-US")}. Default: 250.
+  - method ('lemma' | 'ngram', optional): Similarity used. Default: 'lemma'.
+    - 'lemma': share of shared lemmas (of the shorter phrase)
+    - 'ngram': Jaccard similarity of character trigrams; tolerates typos and compound words
+  - threshold (number, optional): 0-1. Default: 0.5 for 'lemma', 0.4 for 'ngram'.
+  - bypass_cache (boolean, optional): If true, skip the response cache for the fresh search. Default: false.
+
+Returns:
+  {
+    "query"?: string, "region"?: string,  // Fresh search
+    "source_report_id"?: string,          // Clustered report
+    "method": string, "threshold": number,
+    "keywords_count": number,             // Phrases clustered
+    "total": number,                      // Clusters
+    "report_id": string,
+    "clusters": [
+      { head, lemmas, size, broad_frequency, exact_frequency, members: string[] },
+      ...
+    ]
+  }
+  'head' is the cluster's most frequent phrase, 'lemmas' its significant lemmas, and the
+  frequencies are summed over 'members'. Clusters are ordered by total broad frequency.
+  Large results are paged (see bukvarix_fetch_page; pages carry "clusters").
+
+Examples:
+  - "Group phrases for 'пластиковые окна'" -> { query: "пластиковые окна", num: 1000 }
+  - "Cluster the batch search I just ran" -> { report_id: "<report_id from bukvarix_search_keywords_batch>" }
+  - "Looser typo-tolerant groups" -> { query: "ремонт квартир", method: "ngram", threshold: 0.3 }
+
+Error Handling:
+  - VALIDATION: neither or both of 'query' and 'report_id', or the report has expired
+  - Other errors: See bukvarix_search_keywords error handling`,
+      inputSchema: ClusterKeywordsSchema,
+      outputSchema: ClusterKeywordsOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params, extra) => {
+      return await withCredentials(extra, () => clusterKeywords(params));
+    }
+  );
+
+  server.registerTool(
+    "bukvarix_region_sweep",
+    {
+      title: "Region Sweep",
+      description: `Run one domain or one query across several regions and pivot the results.
+
+Fetches the domain's keywords (/v1/site/) or the query's keywords (/v1/keywords/) once per
+region and returns one row per keyword with the values of every region side by side, so
+regional gaps show up in a single call. Regions are fetched with bounded concurrency
+(BUKVARIX_CHUNK_CONCURRENCY, default 2) and reported through MCP progress notifications.
+
+Args:
+  - domain (string, optional): Domain whose positions are compared. Same format as bukvarix_get_domain_keywords.
+  - strip_www (boolean, optional): If true, drop a leading "www." from 'domain'. Default: true.
+  - query (string, optional): Keyword or phrase whose frequencies are compared. Supports *, !, ~.
+    Pass exactly one of 'domain' or 'query'.
+  - regions (string[], required): At least 2 regions. Duplicates are ignored.
+    Available regions: ${Object.keys(REGIONS).join(", ")}
+  - num (number, optional): Rows fetched per region. Range: 1-${defaultPlan.max_num.toLocaleString("en-US")}. Default: 250.
+${ROW_ARGS}
+  - bypass_cache (boolean, optional): If true, skip the response cache and fetch fresh data. Default: false.
+
+Returns:
+  {
+    "domain" | "query": string,
+    "regions": string[],
+    "coverage": { [region]: number },     // Keywords found per region
+    "total": number,
+    "keywords": [
+      {
+        keyword, words_count, chars_count,
+        "regions": { [region]: { position?, broad_frequency, exact_frequency } },
+        "missing_regions": string[]       // Fetched regions where the keyword was not found
+      },
+      ...
+    ]
+  }
+  'position' is set for domain sweeps only. Rows are ordered by their highest broad
+  frequency. The text is a keyword x region table. Large results are paged (see bukvarix_fetch_page).
+
+Examples:
+  - "Where does the site rank outside Moscow?" -> { domain: "lamoda.ru", regions: ["msk", "spb", "ekb"] }
+  - "Regional demand for a phrase" -> { query: "пластиковые окна", regions: ["msk", "nsk", "krr"], num: 100 }
+
+Error Handling:
+  - VALIDATION: neither or both of 'domain' and 'query' given
+  - If some regions fail, the others are returned and "failed_chunks" lists the failed regions;
+    failed regions are not counted in "missing_regions". The call fails only if every region fails
+  - Other errors: See bukvarix_search_keywords error handling`,
+      inputSchema: RegionSweepSchema,
+      outputSchema: RegionSweepOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params, extra) => {
+      return await withCredentials(extra, () => regionSweep(params, progressReporter(extra)));
+    }
+  );
+
+  server.registerTool(
+    "bukvarix_position_changes",
+    {
+      title: "Position Changes",
+      description: `Compare two saved snapshots of a domain's keywords and report ranking changes.
+
+Snapshots are saved by bukvarix_get_domain_keywords with save_snapshot=true, at most one per
+domain, region and day, in a local directory (BUKVARIX_SNAPSHOT_DIR). Save one on a schedule
+(e.g. weekly) to track rankings. This tool makes no API calls.
+
+Args:
+  - domain (string, required): Domain the snapshots were saved for. Same format as bukvarix_get_domain_keywords
+  - strip_www (boolean, optional): If true, drop a leading "www.". Default: true
+  - region (string, optional): Region of the snapshots. Default: 'msk'
+  - from (string, optional): Earlier snapshot date, YYYY-MM-DD. Default: the snapshot before 'to'
+  - to (string, optional): Later snapshot date, YYYY-MM-DD. Default: the latest snapshot
+  - include_unchanged (boolean, optional): Also list keywords whose position did not change. Default: false
+${ROW_ARGS}
+
+Returns:
+  {
+    "domain": string, "region": string, "from": string, "to": string,
+    "snapshots": string[],           // All saved dates for the domain and region
+    "gained": number,                // Keywords only in 'to'
+    "lost": number,                  // Keywords only in 'from'
+    "up": number, "down": number, "unchanged": number,
+    "visibility_from": number,       // Sum of exact_frequency / position
+    "visibility_to": number,
+    "visibility_change_percent": number,
+    "total": number,
+    "keywords": [
+      { keyword, words_count, chars_count, broad_frequency, exact_frequency,
+        change: "new" | "lost" | "up" | "down" | "unchanged",
+        position_from?, position_to?, delta?, visibility_delta }
+    ]
+  }
+  delta is position_from - position_to, so positive means the keyword moved up. Rows are
+  ordered by the absolute visibility_delta, so the changes that matter most come first.
+  Large results are paged (see bukvarix_fetch_page).
+
+Examples:
+  - "What changed since the last check?" -> { domain: "example.com" }
+  - "Compare September with October" -> { domain: "example.com", from: "2026-09-01", to: "2026-10-01" }
+
+Error Handling:
+  - VALIDATION: fewer than two snapshots saved, or no snapshot for a given date; the message lists
+    the saved dates`,
+      inputSchema: PositionChangesSchema,
+      outputSchema: PositionChangesOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (params) => {
+      return await positionChanges(params);
+    }
+  );
+
+  server.registerTool(
+    "bukvarix_domain_overview",
+    {
+      title: "Domain Overview",
+      description: `Summarise a domain's search presence from its keyword set: position distribution,
+estimated traffic, visibility index and branded share.
+
+Fetches up to 'num' keywords via /v1/site/ (plus one count request) and computes:
+  - Position buckets 1-3, 4-10, 11-50 and 51+: keywords, share and traffic
+  - Traffic estimate: sum of exact_frequency x CTR of the position, in visits per month.
+    The CTR curve gives the click share of positions 1, 2, ...; positions past its end get no clicks.
+    Default: ${DEFAULT_CTR_CURVE.join(", ")} (top 10), or ctr_curve from the config file
+  - Visibility index: estimated traffic as a percentage of the traffic at position 1 for every keyword
+  - Branded vs non-branded keywords and traffic, by brand terms (default: config 'brands' plus the domain name)
+Top pages by traffic are not available: /v1/site/ returns keywords and positions but no page URLs,
+so traffic cannot be attributed to pages.
+
+Args:
+  - domain (string, required): Domain or subdomain. Same format as bukvarix_get_domain_keywords
+  - strip_www (boolean, optional): If true, drop a leading "www.". Default: true
+  - region (string, optional): Search engine region. Default: 'msk'
+  - num (number, optional): Keywords to analyse. Default: ${Math.min(DEFAULT_OVERVIEW_NUM, defaultPlan.max_num).toLocaleString("en-US")}
+  - ctr_curve (number[], optional): CTR per position starting at 1, each 0-1
+  - brand_terms (string[], optional): Brand spellings, e.g. ["wildberries", "вайлдберриз", "wb"].
+    Default: the config 'brands' list plus the domain name
+${ROW_ARGS}
+  - bypass_cache (boolean, optional): If true, skip the response cache. Default: false
+
+Returns:
+  {
+    "domain": string, "region": string,
+    "total_keywords": number,       // All keywords of the domain in Bukvarix
+    "analysed_keywords": number,    // Keywords the metrics are computed from (at most num)
+    "traffic_estimate": number,
+    "visibility_index": number,     // Percent
+    "ctr_curve": number[],
+    "positions": [{ "bucket": "1-3", "keywords", "share", "traffic" }, ...],
+    "branded": { "terms", "keywords", "keywords_share", "traffic", "traffic_share" },
+    "total": number,
+    "keywords": [{ ...domain keyword fields, "traffic": number, "branded": boolean }]
+  }
+  Keywords are ordered by estimated traffic. Shares are percentages. Large results are paged
+  (see bukvarix_fetch_page).
+
+Examples:
+  - "How visible is lamoda.ru?" -> { domain: "lamoda.ru" }
+  - "Branded share with Russian spelling" -> { domain: "ozon.ru", brand_terms: ["ozon", "озон"] }
+  - "Traffic with a flatter CTR curve" -> { domain: "example.com", ctr_curve: [0.2, 0.12, 0.09, 0.07, 0.05] }
+
+Error Handling:
+  - See bukvarix_get_domain_keywords`,
+      inputSchema: DomainOverviewSchema,
+      outputSchema: DomainOverviewOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params, extra) => {
+      return await withCredentials(extra, () => domainOverview(params));
+    }
+  );
+
+  server.registerTool(
+    "bukvarix_site_family",
+    {
+      title: "Site Family Keywords",
+      description: `Report the keywords of a whole site family (root domain, subdomains and mirrors) together.
+
+Fetches each host via /v1/site/ (one request per host) and merges the rows into one row per keyword.
+Each keyword is attributed to the host with the best position (an unknown position 0 loses to any
+known one; ties go to the host listed first). A keyword ranked by two or more hosts is flagged as
+cannibalized: the hosts compete with each other for the same phrase. Progress is reported per host
+through MCP progress notifications when the client sends a progressToken.
+
+Args:
+  - domain (string, required): Root domain, e.g. "example.com". Same format as bukvarix_get_domain_keywords
+  - hosts (string[], required): Subdomains and mirrors, 1-${MAX_FAMILY_HOSTS}. A full host name or URL ("shop.example.com",
+    "example-shop.ru") or a bare subdomain label ("shop" means shop.<domain>)
+  - strip_www (boolean, optional): If true, drop a leading "www." from 'domain'; hosts are kept as given. Default: true
+  - include_root (boolean, optional): Also fetch the root domain itself. Default: true
+  - region (string, optional): Search engine region. Default: 'msk'
+  - num (number, optional): Keywords per host. Range: 1-${defaultPlan.max_num.toLocaleString("en-US")}. Default: 250
+  - cannibalized_only (boolean, optional): Return only keywords ranked by two or more hosts. Default: false
+${ROW_ARGS}
+  - bypass_cache (boolean, optional): If true, skip the response cache. Default: false
+
+Returns:
+  {
+    "domain": string, "hosts": string[], "region": string,
+    "coverage": { "<host>": number },   // Keywords fetched per host
+    "best": { "<host>": number },       // Keywords each host ranks best for
+    "cannibalized": number,             // Keywords ranked by two or more hosts
+    "overlap": [{ "host1", "host2", "keywords" }],   // Host pairs sharing keywords
+    "total": number,
+    "keywords": [
+      { keyword, words_count, chars_count, broad_frequency, exact_frequency,
+        "host": string, "position": number, "url": string,   // Best host, its position and page
+        "positions": { "<host>": number },
+        "hosts_count": number, "cannibalized": boolean }
+    ]
+  }
+  Keywords are ordered by exact frequency. "url" is present only when the API returned page URLs.
+  Large results are paged (see bukvarix_fetch_page).
+
+Examples:
+  - "All keywords of example.com with its shop and blog" -> { domain: "example.com", hosts: ["shop", "blog"] }
+  - "Do the mobile site and the mirror cannibalize?" -> { domain: "example.com", hosts: ["m", "example.net"], cannibalized_only: true }
+  - "Regional subdomains only" -> { domain: "example.com", hosts: ["spb", "ekb", "nsk"], include_root: false }
+
+Error Handling:
+  - If some hosts fail, the rows of the others are merged and "failed_chunks" lists the failed hosts;
+    the call fails only if every host fails
+  - Other errors: See bukvarix_get_domain_keywords`,
+      inputSchema: SiteFamilySchema,
+      outputSchema: SiteFamilyOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params, extra) => {
+      return await withCredentials(extra, () => siteFamily(params, progressReporter(extra)));
+    }
+  );
+
+  server.registerTool(
+    "bukvarix_fetch_page",
+    {
+      title: "Fetch Report Page",
+      description: `Fetch the next page of a large report returned by another bukvarix_* tool.
+
+When a report does not fit in 25,000 characters, the tool returns page 1 together with
+"next_cursor". The full report is held server-side, so later pages cost no API calls.
+Pages always break on row boundaries.
+
+Args:
+  - cursor (string, required): The next_cursor value from the previous page.
+
+Returns:
+  The same structure as the tool that produced the report, with:
+  {
+    "total": number,       // Rows in the whole report
+    "page": number,        // 1-based page number
+    "pages": number,       // Total number of pages
+    "keywords": [...],     // Rows of this page
+    "next_cursor": string  // Present unless this is the last page
+  }
+
+Examples:
+  - "Get the next page" -> { cursor: "<next_cursor from the previous result>" }
+
+Error Handling:
+  - "Error: Invalid cursor" - The cursor was not produced by this server
+  - "Error: Cursor has expired" - Reports are kept for 30 minutes; repeat the original call`,
+      inputSchema: FetchPageSchema,
+      outputSchema: FetchPageOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (params) => {
+      return await fetchPage(params);
+    }
+  );
+
+  server.registerTool(
+    "bukvarix_export",
+    {
+      title: "Export Report to File",
+      description: `Write every row of a report returned by another bukvarix_* tool to a file.
+
+Tool replies are paged and meant for reading; exports are for analysis in a spreadsheet
+or script. The data is written to disk on the server host and never passes through the
+conversation, so exporting a 100,000-row report costs no context. No API calls are made.
+
+Files go to the export directory (BUKVARIX_EXPORT_DIR, "export_dir" in the config file,
+or ~/bukvarix-exports). Existing files are never overwritten.
+
+Formats:
+  - xlsx: One sheet, header row frozen; frequencies and positions are numeric cells
+  - csv: RFC 4180 with a UTF-8 BOM so Excel detects the encoding
+  - jsonl: One JSON object per row, nested fields kept as they are
+  - markdown: A single table
+  Nested fields are flattened to dotted columns for xlsx, csv and markdown
+  (e.g. "positions.site.ru", "regions.spb.position"); lists are joined with ", ".
+  Parquet is not supported; load the jsonl or csv file instead.
+
+Args:
+  - report_id (string, required): report_id from any bukvarix_* result (kept 30 minutes)
+  - format ('xlsx' | 'csv' | 'jsonl' | 'markdown'): File format (default: 'xlsx')
+  - filename (string): File name without a directory; the extension is added if missing
+    (default: bukvarix-<rows>-<timestamp>-<id>)
+  - csv_delimiter (',' | ';' | 'tab'): Field delimiter for csv (default: ','); use ';' for
+    Excel with a Russian locale
+
+Returns:
+  {
+    "report_id": string,
+    "format": string,
+    "path": string,        // Absolute path of the written file
+    "rows": number,
+    "columns": string[],
+    "bytes": number
+  }
+
+Examples:
+  - "Save the search results to Excel" -> { report_id: "<report_id>" }
+  - "Export the gap report as csv for Excel" -> { report_id: "<report_id>", format: "csv", csv_delimiter: ";" }
+
+Error Handling:
+  - "Error: Report not found or expired" - Reports are kept for 30 minutes; repeat the original call
+  - "Error: File ... already exists" - Pass another filename`,
+      inputSchema: ExportSchema,
+      outputSchema: ExportOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false,
+      },
+    },
+    async (params) => {
+      return await exportToFile(params);
+    }
+  );
+
+  server.registerTool(
+    "bukvarix_cache_stats",
+    {
+      title: "Cache Statistics",
+      description: `Show the state of the local response cache.
+
+Bukvarix responses are cached on disk, keyed by endpoint and normalized parameters,
+so repeated questions don't spend API limits. Default TTL: 1 day for keyword queries,
+7 days for domain data (/v1/site/, /v1/site_cmp/, /v1/site_mcmp/). Each API key has its
+own partition and only its entries are counted. Expired entries are deleted when read, and the
+oldest entries are pruned once the directory exceeds BUKVARIX_CACHE_MAX_ENTRIES or BUKVARIX_CACHE_MAX_MB.
+
+Args: none
+
+Returns:
+  {
+    "enabled": boolean,
+    "directory": string,               // BUKVARIX_CACHE_DIR
+    "entries": number,
+    "expired_entries": number,
+    "size_bytes": number,
+    "max_bytes": number,               // Limit for the whole directory, 0 = none
+    "max_entries": number,
+    "hits": number,                    // Since server start, all callers
+    "misses": number,
+    "writes": number,
+    "ttl_seconds": { endpoint: number },
+    "endpoints": { endpoint: number }  // Entries per endpoint
+  }`,
+      inputSchema: CacheStatsSchema,
+      outputSchema: CacheStatsOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (params, extra) => {
+      return await withCredentials(extra, () => cacheStats(params));
+    }
+  );
+
+  server.registerTool(
+    "bukvarix_cache_clear",
+    {
+      title: "Clear Cache",
+      description: `Delete entries from the local response cache. Only the entries cached for
+the caller's API key are touched.
+
+Args:
+  - endpoint (string, optional): Only clear responses of this endpoint.
+    One of: /v1/keywords/, /v1/mkeywords/, /v1/site/, /v1/site_cmp/, /v1/site_mcmp/
+  - expired_only (boolean, optional): Only delete expired entries. Default: false.
+
+Returns:
+  { "removed": number, "endpoint": string (if given), "expired_only": boolean }
+
+Examples:
+  - "Clear everything" -> {}
+  - "Drop stale domain data" -> { endpoint: "/v1/site/" }
+  - "Housekeeping" -> { expired_only: true }
+
+  To refresh a single call, prefer bypass_cache: true on that tool instead.`,
+      inputSchema: CacheClearSchema,
+      outputSchema: CacheClearOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (params, extra) => {
+      return await withCredentials(extra, () => cacheClear(params));
+    }
+  );
+
+  server.registerTool(
+    "bukvarix_account_info",
+    {
+      title: "Account Info",
+      description: `Show the plan and limits that apply to the current API key.
+
+Limits come from the plan of the key's profile in the config file, or from the default
+plan (BUKVARIX_PLAN / config "plan", else 'free'). Tools reject requests above these
+limits before calling the API.
+
+Args: none
+
+Returns:
+  {
+    "plan": string,                 // e.g. "free", "paid" or a custom plan name
+    "limits": {
+      "max_queries": number,        // bukvarix_search_keywords_batch queries
+      "max_exclusions": number,     // bukvarix_search_keywords_batch exclusions
+      "max_domains_compare": number,
+      "max_num": number             // Rows per report
+    },
+    "key_source": "header" | "profile" | "env" | "default",
+    "profile": string (if the key comes from a profile),
+    "free_key": boolean
+  }
+
+  The API key itself is never returned.`,
+      inputSchema: AccountInfoSchema,
+      outputSchema: AccountInfoOutputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (params, extra) => {
+      return await withCredentials(extra, () => accountInfo(params));
+    }
+  );
+
+  server.registerResource(
+    "regions",
+    REGIONS_URI,
+    {
+      title: "Search Engine Regions",
+      description: "Region codes accepted by the 'region' parameter of bukvarix_* tools, with search engine and city.",
+      mimeType: "application/json",
+    },
+    async () => readRegions()
+  );
+
+  server.registerResource(
+    "report",
+    new ResourceTemplate(REPORT_URI_TEMPLATE, {
+      list: async () => listReportResources(),
+      complete: { id: completeReportId },
+    }),
+    {
+      title: "Report",
+      description: "Every row of a report returned by a bukvarix_* tool, unpaged, with its metadata. "
+        + "The id is the tool result's report_id. Reports are kept for 30 minutes.",
+      mimeType: "application/json",
+    },
+    async (_uri, { id }) => readReport(String(id))
+  );
+
+  server.registerResource(
+    "domain-snapshot",
+    new ResourceTemplate(DOMAIN_SNAPSHOT_URI_TEMPLATE, {
+      list: async () => listSnapshotResources(),
+      complete: { domain: completeSnapshotDomain, region: completeSnapshotRegion },
+    }),
+    {
+      title: "Latest Domain Keywords",
+      description: "Keywords and positions of a domain in a region from the last /v1/site/ fetch by "
+        + "bukvarix_get_domain_keywords, bukvarix_competitor_matrix, bukvarix_keyword_gap or bukvarix_region_sweep, "
+        + "in this session, or the newest snapshot saved with save_snapshot under the caller's API key once that has expired. "
+        + "Costs no API calls.",
+      mimeType: "application/json",
+    },
+    async (_uri, { domain, region }, extra) => await readDomainSnapshot(String(domain), String(region), extra.requestInfo?.headers)
+  );
+
+  server.registerPrompt(
+    "bukvarix_semantic_core",
+    {
+      title: "Semantic Core",
+      description: "Collect keywords for seed phrases, cluster them by topic and export the result.",
+      argsSchema: SemanticCorePromptArgs,
+    },
+    (args) => semanticCorePrompt(args)
+  );
+
+  server.registerPrompt(
+    "bukvarix_competitor_audit",
+    {
+      title: "Competitor Audit",
+      description: "Compare a domain with its competitors: coverage, overlap, keyword gaps grouped by topic and recommendations.",
+      argsSchema: CompetitorAuditPromptArgs,
+    },
+    (args) => competitorAuditPrompt(args)
+  );
+
+  server.registerPrompt(
+    "bukvarix_regional_expansion",
+    {
+      title: "Regional Expansion Check",
+      description: "Find the keywords a domain ranks for in its home region but lacks in other regions.",
+      argsSchema: RegionalExpansionPromptArgs,
+    },
+    (args) => regionalExpansionPrompt(args)
+  );
+
+  return server;
+}
@@ -1,52 +1,132 @@
 import axios, { AxiosError } from "axios";
 import { API_BASE_URL } from "../constants.js";
 import { ApiError } from "../types.js";
+import { cacheKey, getCached, setCached } from "./cache.js";
+import { parseDelimited } from "./csv.js";
+import { envNumber } from "./config.js";
+import { BukvarixError, unexpectedResponse } from "./errors.js";
+import { currentCredentials } from "./credentials.js";
+import { currentPlan, describePlan } from "./plans.js";
+import { rateLimiter, sleep } from "./rate-limiter.js";
 
-const API_KEY = process.env.BUKVARIX_API_KEY || "free";
+// Overridable so the client can be pointed at a local stub server
+const BASE_URL = process.env.BUKVARIX_API_URL || API_BASE_URL;
+
+const MAX_RETRIES = envNumber("BUKVARIX_MAX_RETRIES", 3);
+const RETRY_BASE_MS = envNumber("BUKVARIX_RETRY_BASE_MS", 500);
+const RETRY_MAX_MS = envNumber("BUKVARIX_RETRY_MAX_MS", 30000);
+// Statuses handleApiError flags as retryable; keep the two in step
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+const RETRYABLE_CODES = ["ECONNRESET", "ECONNABORTED", "ETIMEDOUT"];
 
 export function encodePercentEncoding(text: string): string {
   return encodeURIComponent(text);
 }
 
-export function handleApiError(error: unknown): string {
+export function handleApiError(error: unknown): ApiError {
   if (error instanceof AxiosError) {
     if (error.response) {
       const status = error.response.status;
       const data = error.response.data;
+      const details = typeof data === "string" && data.trim() ? data.trim().slice(0, 500) : undefined;
 
       switch (status) {
         case 400:
-          return `Error: Invalid request. ${typeof data === "string" ? data : "Check your parameters."}`;
+          return { code: "VALIDATION", status, message: `Error: Invalid request. ${details ?? "Check your parameters."}`, details, retryable: false };
         case 401:
-          return `Error: Authentication failed. Check your API key (BUKVARIX_API_KEY environment variable).`;
+        case 403:
+          return { code: "AUTH", status, message: `Error: Authentication failed. Check your API key (X-Bukvarix-Api-Key header, profile in the config file, or BUKVARIX_API_KEY environment variable).`, details, retryable: false };
         case 402:
-          return `Error: Limit exceeded. Free API limits: max 100 queries, 250 exclusions, 10 domains for comparison. Try reducing the 'num' parameter or use filters.`;
+          return { code: "QUOTA", status, message: `Error: Limit exceeded. Plan '${currentPlan().name}' limits: ${describePlan(currentPlan())}. Try reducing the 'num' parameter or use filters.`, details, retryable: false };
         case 429:
-          return `Error: Rate limit exceeded. Please wait before making more requests.`;
+          return { code: "RATE_LIMIT", status, message: `Error: Rate limit exceeded. Please wait before making more requests.`, details, retryable: true };
         case 500:
-          return `Error: Internal server error. Please contact Bukvarix support.`;
+          return { code: "UPSTREAM", status, message: `Error: Internal server error. Please contact Bukvarix support.`, details, retryable: false };
+        case 502:
         case 503:
-          return `Error: Server maintenance in progress. Please try again later.`;
+        case 504:
+          return { code: "UPSTREAM", status, message: `Error: Server maintenance in progress. Please try again later.`, details, retryable: true };
         default:
-          return `Error: API request failed with status ${status}. ${typeof data === "string" ? data : ""}`;
+          return { code: "UPSTREAM", status, message: `Error: API request failed with status ${status}. ${details ?? ""}`.trim(), details, retryable: status >= 500 };
       }
-    } else if (error.code === "ECONNABORTED") {
-      return "Error: Request timed out. Please try again.";
-    } else if (error.code === "ENOTFOUND" || error.code === "ECONNREFUSED") {
-      return "Error: Cannot connect to Bukvarix API. Check your internet connection.";
+    } else if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+      return { code: "NETWORK", status: 0, message: "Error: Request timed out. Please try again.", details: error.code, retryable: true };
+    } else if (error.code === "ENOTFOUND" || error.code === "ECONNREFUSED" || error.code === "ECONNRESET") {
+      return { code: "NETWORK", status: 0, message: "Error: Cannot connect to Bukvarix API. Check your internet connection.", details: error.code, retryable: true };
     }
   }
-  return `Error: Unexpected error occurred: ${error instanceof Error ? error.message : String(error)}`;
+  return {
+    code: "UPSTREAM",
+    status: 0,
+    message: `Error: Unexpected error occurred: ${error instanceof Error ? error.message : String(error)}`,
+    retryable: false,
+  };
+}
+
+export interface RequestOptions {
+  // Skip the cache lookup; the fresh response still replaces the cached one
+  bypassCache?: boolean;
+  // Safe to repeat on transient failures. All Bukvarix endpoints are read-only,
+  // including the POST ones, so this defaults to true.
+  idempotent?: boolean;
+}
+
+/**
+ * Milliseconds from a Retry-After header (delta-seconds or HTTP date), if present.
+ */
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== "string" || value.trim() === "") {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Delay before retrying a failed attempt (0-based), or undefined if the error
+ * is not transient. Uses full-jitter exponential backoff unless the server
+ * sent Retry-After.
+ */
+function retryDelay(error: unknown, attempt: number): number | undefined {
+  if (!(error instanceof AxiosError)) {
+    return undefined;
+  }
+  if (error.response) {
+    if (!RETRYABLE_STATUSES.includes(error.response.status)) {
+      return undefined;
+    }
+    const retryAfter = parseRetryAfter(error.response.headers?.["retry-after"]);
+    if (retryAfter !== undefined) {
+      return Math.min(retryAfter, RETRY_MAX_MS);
+    }
+  } else if (!error.code || !RETRYABLE_CODES.includes(error.code)) {
+    return undefined;
+  }
+  return Math.random() * Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** attempt);
 }
 
 export async function makeApiRequest<T>(
   endpoint: string,
   method: "GET" | "POST" = "GET",
   data?: Record<string, string | number | boolean | string[]>,
-  params?: Record<string, string | number | boolean>
+  params?: Record<string, string | number | boolean>,
+  options: RequestOptions = {}
 ): Promise<T> {
+  const key = cacheKey(method, endpoint, (method === "POST" ? data : params) ?? {});
+  if (!options.bypassCache) {
+    const cached = await getCached(endpoint, key);
+    if (cached !== undefined) {
+      return cached as T;
+    }
+  }
+
   try {
-    const url = `${API_BASE_URL}${endpoint}`;
+    const apiKey = currentCredentials().apiKey;
+    const url = `${BASE_URL}${endpoint}`;
     const config: {
       method: "GET" | "POST";
       url: string;
@@ -65,7 +145,7 @@ export async function makeApiRequest<T>(
       // For POST requests, api_key goes in form data, not params
       config.headers["Content-Type"] = "application/x-www-form-urlencoded";
       const formData = new URLSearchParams();
-      formData.append("api_key", API_KEY);
+      formData.append("api_key", apiKey);
       for (const [key, value] of Object.entries(data)) {
         if (Array.isArray(value)) {
           formData.append(key, value.join("\r\n"));
@@ -77,67 +157,93 @@ export async function makeApiRequest<T>(
     } else {
       // For GET requests, api_key goes in query params
       if (params) {
-        config.params = { ...params, api_key: API_KEY };
+        config.params = { ...params, api_key: apiKey };
       } else {
-        config.params = { api_key: API_KEY };
+        config.params = { api_key: apiKey };
       }
     }
 
-    const response = await axios(config);
+    const idempotent = options.idempotent ?? true;
+    for (let attempt = 0; ; attempt++) {
+      await rateLimiter.acquire();
+      try {
+        const response = await axios(config);
 
-    // Handle response - axios may parse JSON automatically
-    if (typeof response.data === "string") {
-      return response.data as T;
+        // Handle response - axios may parse JSON automatically
+        await setCached(endpoint, key, response.data);
+        return response.data as T;
+      } catch (error) {
+        const delay = idempotent && attempt < MAX_RETRIES ? retryDelay(error, attempt) : undefined;
+        if (delay === undefined) {
+          throw error;
+        }
+        await sleep(delay);
+      }
     }
-    return response.data as T;
   } catch (error) {
-    const errorMessage = handleApiError(error);
-    throw new Error(errorMessage);
+    throw new BukvarixError(handleApiError(error));
   }
 }
 
+/**
+ * Rows of a Bukvarix response as positional cells. 'headers' is set for
+ * csv/tsv (first line of the report) and for json arrays of objects.
+ */
+export interface ParsedTable {
+  headers?: string[];
+  rows: unknown[][];
+}
+
 export function parseResponse(
-  data: string | object,
+  data: unknown,
   format: "txt" | "json" | "csv" | "tsv"
-): any {
-  // If data is already parsed (object), return as is for JSON format
-  if (format === "json" && typeof data === "object" && data !== null) {
-    return data;
-  }
-
-  // If data is string, parse it
+): ParsedTable {
   if (format === "json") {
+    let parsed: unknown = data;
     if (typeof data === "string") {
+      // An empty body is an empty report
+      if (data.trim() === "") {
+        return { rows: [] };
+      }
       try {
-        return JSON.parse(data);
+        parsed = JSON.parse(data);
       } catch {
-        return { raw: data };
+        throw unexpectedResponse("the body is not valid JSON", data);
       }
     }
-    return data;
+    // The API wraps rows as { data: [...] }; accept a bare array too
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed) && "data" in parsed) {
+      parsed = (parsed as { data: unknown }).data;
+    }
+    // Anything else, e.g. an { error: ... } body, must not pass as 0 rows
+    if (!Array.isArray(parsed)) {
+      throw unexpectedResponse("expected an array of rows in 'data'", data);
+    }
+    const first = parsed.find((row) => row !== null && row !== undefined);
+    if (first && typeof first === "object" && !Array.isArray(first)) {
+      const headers = Object.keys(first);
+      return {
+        headers,
+        rows: parsed.map((row) => headers.map((h) => (row as Record<string, unknown>)?.[h])),
+      };
+    }
+    return { rows: parsed.map((row) => (Array.isArray(row) ? row : [row])) };
   }
 
   // For txt, csv, tsv formats, data must be string
   const dataString = typeof data === "string" ? data : String(data);
 
   if (format === "txt") {
-    return dataString.split("\n").filter((line: string) => line.trim());
-  }
-
-  if (format === "csv" || format === "tsv") {
-    const lines = dataString.split("\n").filter((line: string) => line.trim());
-    const delimiter = format === "csv" ? ";" : "\t";
-    const headers = lines[0]?.split(delimiter) || [];
-    const rows = lines.slice(1).map((line: string) => {
-      const values = line.split(delimiter);
-      const row: Record<string, string> = {};
-      headers.forEach((header: string, index: number) => {
-        row[header.trim()] = values[index]?.trim().replace(/^"|"$/g, "") || "";
-      });
-      return row;
-    });
-    return { headers, rows };
+    return {
+      rows: dataString
+        .split("\n")
+        .map((line: string) => line.trim())
+        .filter((line: string) => line)
+        .map((line: string) => [line]),
+    };
   }
 
-  return { raw: dataString };
+  // Quoted csv values may contain the delimiter, doubled quotes and line breaks
+  const [headers = [], ...rows] = parseDelimited(dataString, format === "csv" ? ";" : "\t");
+  return { headers, rows };
 }
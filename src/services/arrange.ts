@@ -0,0 +1,212 @@
+import { POSITION_BUCKETS } from "./metrics.js";
+import { validationError } from "./errors.js";
+import type { ArrangeOptions } from "../schemas/common.js";
+import type { RowGroup } from "../types.js";
+
+export const SORT_ORDERS = ["asc", "desc"] as const;
+export const GROUP_BY = ["first_word", "words_count", "position_bucket"] as const;
+export const AGGREGATES = ["sum", "avg"] as const;
+
+export type SortOrder = (typeof SORT_ORDERS)[number];
+export type GroupBy = (typeof GROUP_BY)[number];
+
+// Groups listed in the report header; 'aggregates' in the structured result has them all
+const MAX_LISTED_GROUPS = 20;
+
+type ArrangeableRow = { keyword: string; words_count: number };
+type SortKey = number | string | undefined;
+
+/**
+ * Value of a column of a row. Nested fields are addressed with dots, and a
+ * record key may contain dots itself: "regions.spb.exact_frequency",
+ * "positions.ozon.ru".
+ */
+function columnValue(value: unknown, column: string): unknown {
+  if (value === null || typeof value !== "object") {
+    return undefined;
+  }
+  const record = value as Record<string, unknown>;
+  if (column in record) {
+    return record[column];
+  }
+  for (let dot = column.indexOf("."); dot !== -1; dot = column.indexOf(".", dot + 1)) {
+    const head = column.slice(0, dot);
+    if (head in record) {
+      return columnValue(record[head], column.slice(dot + 1));
+    }
+  }
+  return undefined;
+}
+
+// Position 0 means "unknown" everywhere in the API, so it sorts with the missing values
+const isPositionColumn = (column: string) => column.includes("position");
+
+function sortKey(value: unknown, column: string): SortKey {
+  if (typeof value === "number") return isPositionColumn(column) && value === 0 ? undefined : value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "string") return value;
+  // Lists such as missing_regions or tags.intents sort by length
+  if (Array.isArray(value)) return value.length;
+  return undefined;
+}
+
+/**
+ * Text columns and positions read best ascending, counts and frequencies descending.
+ */
+function defaultOrder(keys: SortKey[], column: string): SortOrder {
+  const sample = keys.find((key) => key !== undefined);
+  return typeof sample === "string" || isPositionColumn(column) ? "asc" : "desc";
+}
+
+/**
+ * Columns of a row for error messages; nested records are shown as "name.<field>".
+ */
+function describeColumns(row: object): string {
+  return Object.entries(row)
+    .map(([key, value]) => (value !== null && typeof value === "object" && !Array.isArray(value) ? `${key}.<field>` : key))
+    .join(", ");
+}
+
+function sortRows<T extends ArrangeableRow>(rows: T[], column: string, order: SortOrder | undefined): T[] {
+  const values = rows.map((row) => columnValue(row, column));
+  const keys = values.map((value) => sortKey(value, column));
+  if (rows.length > 0 && values.every((value) => sortKey(value, column) === undefined && (value === undefined || typeof value === "object"))) {
+    throw validationError(`Error: '${column}' is not a sortable column of these rows. Columns: ${describeColumns(rows[0])}.`);
+  }
+
+  const direction = (order ?? defaultOrder(keys, column)) === "asc" ? 1 : -1;
+  const indexed = rows.map((row, i) => ({ row, key: keys[i] }));
+  // Array.prototype.sort is stable, so ties keep the tool's own order
+  indexed.sort((a, b) => {
+    if (a.key === undefined || b.key === undefined) {
+      return (a.key === undefined ? 1 : 0) - (b.key === undefined ? 1 : 0);
+    }
+    const diff = typeof a.key === "string" || typeof b.key === "string"
+      ? String(a.key).localeCompare(String(b.key), "ru")
+      : a.key - b.key;
+    return diff * direction;
+  });
+  return indexed.map(({ row }) => row);
+}
+
+/**
+ * Position used for the position buckets: the row's own position, the later
+ * position of a change row, or the best of several domains, hosts or regions.
+ */
+function bestPosition(row: object): number | undefined {
+  const record = row as Record<string, unknown>;
+  const direct = record.position ?? record.position_to;
+  if (typeof direct === "number") {
+    return direct > 0 ? direct : undefined;
+  }
+  const positions = [
+    ...Object.values((record.positions ?? {}) as Record<string, number>),
+    ...Object.values((record.regions ?? {}) as Record<string, { position?: number }>).map((cell) => cell.position ?? 0),
+  ].filter((position) => position > 0);
+  return positions.length > 0 ? Math.min(...positions) : undefined;
+}
+
+const hasPositions = (row: object) => ["position", "position_from", "position_to", "positions", "competitor_positions"].some((key) => key in row)
+  || Object.values(((row as Record<string, unknown>).regions ?? {}) as Record<string, object>).some((cell) => "position" in cell);
+
+function groupKey<T extends ArrangeableRow>(groupBy: GroupBy, rows: T[]): (row: T) => string {
+  switch (groupBy) {
+    case "first_word":
+      return (row) => row.keyword.trim().toLowerCase().split(/\s+/)[0];
+    case "words_count":
+      return (row) => String(row.words_count);
+    case "position_bucket":
+      if (rows.length > 0 && !rows.some(hasPositions)) {
+        throw validationError("Error: group_by 'position_bucket' needs rows with positions. Use it with domain tools, not keyword searches.");
+      }
+      return (row) => {
+        const position = bestPosition(row);
+        return position === undefined ? "unranked" : POSITION_BUCKETS.find((bucket) => position >= bucket.from && position <= bucket.to)!.bucket;
+      };
+  }
+}
+
+/**
+ * Frequencies of a row. Region sweep rows have them per region and count
+ * with their highest value, the same way the sweep orders them.
+ */
+function rowFrequencies(row: object): { broad: number; exact: number } {
+  const record = row as Record<string, unknown>;
+  if (typeof record.broad_frequency === "number" && typeof record.exact_frequency === "number") {
+    return { broad: record.broad_frequency, exact: record.exact_frequency };
+  }
+  const cells = Object.values((record.regions ?? {}) as Record<string, { broad_frequency: number; exact_frequency: number }>);
+  return {
+    broad: Math.max(0, ...cells.map((cell) => cell.broad_frequency)),
+    exact: Math.max(0, ...cells.map((cell) => cell.exact_frequency)),
+  };
+}
+
+/**
+ * Groups in order of their first row.
+ */
+function totalGroups<T extends ArrangeableRow>(rows: T[], groupBy: GroupBy, aggregate: ArrangeOptions["aggregate"]): RowGroup[] {
+  const key = groupKey(groupBy, rows);
+  const totals = new Map<string, RowGroup>();
+  for (const row of rows) {
+    const group = key(row);
+    const entry = totals.get(group) ?? { group, keywords: 0, broad_frequency: 0, exact_frequency: 0 };
+    const { broad, exact } = rowFrequencies(row);
+    entry.keywords++;
+    entry.broad_frequency += broad;
+    entry.exact_frequency += exact;
+    totals.set(group, entry);
+  }
+
+  const groups = [...totals.values()];
+  if (aggregate === "avg") {
+    for (const group of groups) {
+      group.broad_frequency = Math.round(group.broad_frequency / group.keywords);
+      group.exact_frequency = Math.round(group.exact_frequency / group.keywords);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Order rows by sort_by and, with group_by, gather each group's rows together.
+ * Groups come in order of their aggregated exact frequency, highest first;
+ * inside a group rows keep the sort_by order, or the tool's own order without
+ * sort_by. Call it before storeReport so the first page holds the rows that
+ * matter most rather than the first ones the API sent.
+ */
+export function arrangeRows<T extends ArrangeableRow>(rows: T[], options: ArrangeOptions): T[] {
+  const sorted = options.sort_by ? sortRows(rows, options.sort_by, options.sort_order) : rows;
+  if (!options.group_by) {
+    return sorted;
+  }
+
+  const ranked = totalGroups(sorted, options.group_by, options.aggregate)
+    .sort((a, b) => b.exact_frequency - a.exact_frequency || b.broad_frequency - a.broad_frequency);
+  const rank = new Map(ranked.map((group, i) => [group.group, i]));
+  const key = groupKey(options.group_by, sorted);
+  return [...sorted].sort((a, b) => rank.get(key(a))! - rank.get(key(b))!);
+}
+
+/**
+ * Per-group totals of arranged rows for the structured result, undefined
+ * without group_by.
+ */
+export function aggregateGroups<T extends ArrangeableRow>(rows: T[], options: ArrangeOptions): RowGroup[] | undefined {
+  return options.group_by ? totalGroups(rows, options.group_by, options.aggregate) : undefined;
+}
+
+/**
+ * Notice for the report header, empty when the rows keep the tool's order.
+ */
+export function describeArrangement(options: ArrangeOptions, groups: RowGroup[] | undefined): string {
+  let text = options.sort_by ? `Sorted by ${options.sort_by}${options.sort_order ? ` (${options.sort_order})` : ""}.\n\n` : "";
+  if (options.group_by && groups) {
+    const listed = groups.slice(0, MAX_LISTED_GROUPS)
+      .map((group) => `- ${group.group}: ${group.keywords} keywords, broad ${group.broad_frequency}, exact ${group.exact_frequency}`)
+      .join("\n");
+    const more = groups.length > MAX_LISTED_GROUPS ? `\n- ... ${groups.length - MAX_LISTED_GROUPS} more groups in 'aggregates'` : "";
+    text += `## Groups by ${options.group_by} (${options.aggregate} of frequencies; rows follow in this order)\n${listed}${more}\n\n`;
+  }
+  return text;
+}
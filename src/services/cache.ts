@@ -0,0 +1,247 @@
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { DEFAULT_CACHE_TTL, type Endpoint } from "../constants.js";
+import { envNumber } from "./config.js";
+import { apiKeyScope, redactSecrets } from "./credentials.js";
+import { writeJsonAtomic } from "./files.js";
+
+const CACHE_DIR = process.env.BUKVARIX_CACHE_DIR || path.join(os.homedir(), ".cache", "bukvarix-mcp-server");
+const CACHE_ENABLED = !["0", "false", "off"].includes((process.env.BUKVARIX_CACHE || "").toLowerCase());
+// Limits for the whole cache directory, all keys together; 0 disables a limit
+const CACHE_MAX_BYTES = envNumber("BUKVARIX_CACHE_MAX_MB", 100) * 1024 * 1024;
+const CACHE_MAX_ENTRIES = envNumber("BUKVARIX_CACHE_MAX_ENTRIES", 10000);
+
+interface CacheEntry {
+  endpoint: string;
+  key: string;
+  createdAt: number;
+  expiresAt: number;
+  data: unknown;
+}
+
+export interface CacheStats {
+  enabled: boolean;
+  directory: string;
+  entries: number;
+  expired_entries: number;
+  size_bytes: number;
+  max_bytes: number;
+  max_entries: number;
+  hits: number;
+  misses: number;
+  writes: number;
+  ttl_seconds: Record<string, number>;
+  endpoints: Record<string, number>;
+}
+
+const counters = { hits: 0, misses: 0, writes: 0 };
+
+/**
+ * TTL for an endpoint in seconds: BUKVARIX_CACHE_TTL_<NAME> where NAME is the
+ * endpoint path without /v1/, upper-cased (e.g. /v1/site_cmp/ -> SITE_CMP).
+ */
+export function cacheTtl(endpoint: string): number {
+  const name = endpoint.replace(/^\/v1\//, "").replace(/\/$/, "").toUpperCase();
+  return envNumber(`BUKVARIX_CACHE_TTL_${name}`, DEFAULT_CACHE_TTL[endpoint as Endpoint] ?? 0);
+}
+
+/**
+ * Cache key from method, endpoint, parameters with sorted keys and a hash of
+ * the caller's API key. Entries are scoped per key, so one caller's paid
+ * response is never served to another caller or to an invalid key; only the
+ * hash is mixed in, so the key itself is never written to disk.
+ */
+export function cacheKey(method: string, endpoint: string, params: Record<string, unknown>): string {
+  const owner = apiKeyScope();
+  const normalized = Object.keys(params)
+    .filter((key) => key !== "api_key")
+    .sort()
+    .map((key) => {
+      const value = params[key];
+      return [key, Array.isArray(value) ? value.map(String).join("\n") : String(value).trim()];
+    });
+  return createHash("sha256").update(JSON.stringify([owner, method, endpoint, normalized])).digest("hex");
+}
+
+/**
+ * Entries live in <CACHE_DIR>/<API key hash>/<key>.json, so stats and clearing
+ * only ever touch the caller's own partition.
+ */
+function partitionDir(): string {
+  return path.join(CACHE_DIR, apiKeyScope());
+}
+
+function entryPath(key: string): string {
+  return path.join(partitionDir(), `${key}.json`);
+}
+
+async function readEntry(file: string): Promise<CacheEntry | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8")) as CacheEntry;
+  } catch {
+    return undefined;
+  }
+}
+
+async function listEntryFiles(dir: string): Promise<string[]> {
+  try {
+    const names = await fs.readdir(dir);
+    return names.filter((name) => name.endsWith(".json")).map((name) => path.join(dir, name));
+  } catch {
+    return [];
+  }
+}
+
+async function removeFile(file: string): Promise<boolean> {
+  try {
+    await fs.unlink(file);
+    return true;
+  } catch {
+    // Already removed by a concurrent clear or prune
+    return false;
+  }
+}
+
+/**
+ * Entry files of every partition, plus entries left at the top level by
+ * versions that did not partition the cache.
+ */
+async function listAllEntryFiles(): Promise<string[]> {
+  let partitions: string[];
+  try {
+    const dirents = await fs.readdir(CACHE_DIR, { withFileTypes: true });
+    partitions = dirents.filter((dirent) => dirent.isDirectory()).map((dirent) => path.join(CACHE_DIR, dirent.name));
+  } catch {
+    return [];
+  }
+  const files = await listEntryFiles(CACHE_DIR);
+  for (const dir of partitions) {
+    files.push(...await listEntryFiles(dir));
+  }
+  return files;
+}
+
+/**
+ * Delete the least recently written entries until the directory fits
+ * CACHE_MAX_ENTRIES and CACHE_MAX_BYTES.
+ */
+async function pruneCache(): Promise<void> {
+  if (CACHE_MAX_BYTES <= 0 && CACHE_MAX_ENTRIES <= 0) {
+    return;
+  }
+  const files: Array<{ file: string; size: number; mtime: number }> = [];
+  for (const file of await listAllEntryFiles()) {
+    try {
+      const { size, mtimeMs } = await fs.stat(file);
+      files.push({ file, size, mtime: mtimeMs });
+    } catch {
+      // Removed since listing
+    }
+  }
+  files.sort((a, b) => a.mtime - b.mtime);
+  let entries = files.length;
+  let bytes = files.reduce((total, { size }) => total + size, 0);
+  for (const { file, size } of files) {
+    const overEntries = CACHE_MAX_ENTRIES > 0 && entries > CACHE_MAX_ENTRIES;
+    const overBytes = CACHE_MAX_BYTES > 0 && bytes > CACHE_MAX_BYTES;
+    if (!overEntries && !overBytes) break;
+    if (await removeFile(file)) {
+      entries--;
+      bytes -= size;
+    }
+  }
+}
+
+/**
+ * Return the cached response for a key, or undefined on a miss or expired
+ * entry. An expired entry is deleted on the way.
+ */
+export async function getCached(endpoint: string, key: string): Promise<unknown | undefined> {
+  if (!CACHE_ENABLED || cacheTtl(endpoint) <= 0) {
+    return undefined;
+  }
+  const file = entryPath(key);
+  const entry = await readEntry(file);
+  if (!entry || entry.expiresAt <= Date.now()) {
+    counters.misses++;
+    if (entry) {
+      await removeFile(file);
+    }
+    return undefined;
+  }
+  counters.hits++;
+  return entry.data;
+}
+
+/**
+ * Store a response, then prune the directory back within its limits. Cache
+ * failures are logged and never fail the request.
+ */
+export async function setCached(endpoint: string, key: string, data: unknown): Promise<void> {
+  const ttl = cacheTtl(endpoint);
+  if (!CACHE_ENABLED || ttl <= 0) {
+    return;
+  }
+  const now = Date.now();
+  const entry: CacheEntry = { endpoint, key, createdAt: now, expiresAt: now + ttl * 1000, data };
+  try {
+    await writeJsonAtomic(entryPath(key), entry);
+    counters.writes++;
+    await pruneCache();
+  } catch (error) {
+    console.error("Cache write failed:", redactSecrets(error instanceof Error ? error.message : String(error)));
+  }
+}
+
+/**
+ * Entries of the caller's partition; hits, misses and writes are counted for
+ * the whole process, all callers together.
+ */
+export async function getCacheStats(): Promise<CacheStats> {
+  const now = Date.now();
+  const stats: CacheStats = {
+    enabled: CACHE_ENABLED,
+    directory: CACHE_DIR,
+    entries: 0,
+    expired_entries: 0,
+    size_bytes: 0,
+    max_bytes: Math.max(0, CACHE_MAX_BYTES),
+    max_entries: Math.max(0, CACHE_MAX_ENTRIES),
+    ...counters,
+    ttl_seconds: Object.fromEntries(Object.keys(DEFAULT_CACHE_TTL).map((endpoint) => [endpoint, cacheTtl(endpoint)])),
+    endpoints: {},
+  };
+
+  for (const file of await listEntryFiles(partitionDir())) {
+    const entry = await readEntry(file);
+    if (!entry) continue;
+    const { size } = await fs.stat(file);
+    stats.entries++;
+    stats.size_bytes += size;
+    stats.endpoints[entry.endpoint] = (stats.endpoints[entry.endpoint] ?? 0) + 1;
+    if (entry.expiresAt <= now) {
+      stats.expired_entries++;
+    }
+  }
+  return stats;
+}
+
+/**
+ * Delete the caller's cache entries, optionally only for one endpoint or only
+ * expired ones. Returns the number of entries removed.
+ */
+export async function clearCache(options: { endpoint?: string; expiredOnly?: boolean } = {}): Promise<number> {
+  const now = Date.now();
+  let removed = 0;
+  for (const file of await listEntryFiles(partitionDir())) {
+    const entry = await readEntry(file);
+    if (options.endpoint && entry?.endpoint !== options.endpoint) continue;
+    if (options.expiredOnly && entry && entry.expiresAt > now) continue;
+    if (await removeFile(file)) {
+      removed++;
+    }
+  }
+  return removed;
+}
@@ -0,0 +1,77 @@
+import { envNumber } from "./config.js";
+import { toApiError } from "./errors.js";
+import type { ProgressReporter } from "./progress.js";
+import type { ApiError } from "../types.js";
+
+// Chunks of one tool call in flight at once; the shared rate limiter still applies
+const CHUNK_CONCURRENCY = Math.max(1, envNumber("BUKVARIX_CHUNK_CONCURRENCY", 2));
+
+export interface ChunkFailure {
+  chunk: number;
+  items: string[];
+  error: ApiError;
+}
+
+export interface ChunkResults<T> {
+  results: T[];
+  failures: ChunkFailure[];
+  chunks: number;
+}
+
+export function chunkArray<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Run fn over every chunk with bounded concurrency. A failing chunk is
+ * recorded (1-based index, its items, the error) instead of failing the rest.
+ * Successful results keep chunk order.
+ */
+export async function runChunks<T>(
+  chunks: string[][],
+  fn: (items: string[]) => Promise<T>,
+  onProgress: ProgressReporter
+): Promise<ChunkResults<T>> {
+  const settled: Array<{ ok: true; value: T } | { ok: false; failure: ChunkFailure }> = new Array(chunks.length);
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < chunks.length) {
+      const index = next++;
+      try {
+        settled[index] = { ok: true, value: await fn(chunks[index]) };
+      } catch (error) {
+        settled[index] = { ok: false, failure: { chunk: index + 1, items: chunks[index], error: toApiError(error) } };
+      }
+      done++;
+      await onProgress(done, chunks.length, `Chunk ${done} of ${chunks.length} done`);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(CHUNK_CONCURRENCY, chunks.length) }, worker));
+
+  return {
+    results: settled.flatMap((item) => (item.ok ? [item.value] : [])),
+    failures: settled.flatMap((item) => (item.ok ? [] : [item.failure])),
+    chunks: chunks.length,
+  };
+}
+
+/**
+ * Text summary of failed chunks, appended to the report.
+ */
+export function describeFailures(failures: ChunkFailure[], chunks: number, noun: string): string {
+  if (failures.length === 0) {
+    return "";
+  }
+  const lines = failures.map((failure) => {
+    const preview = failure.items.slice(0, 3).join(", ") + (failure.items.length > 3 ? ", ..." : "");
+    return `- Chunk ${failure.chunk} (${failure.items.length} ${noun}: ${preview}): ${failure.error.code} - ${failure.error.message}`;
+  });
+  return `**Partial result: ${failures.length} of ${chunks} chunks failed.**\n${lines.join("\n")}\n\n`;
+}
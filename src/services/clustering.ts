@@ -0,0 +1,142 @@
+import { tokenize, phraseLemmas, wordLemma } from "./morphology.js";
+import type { KeywordCluster } from "../types.js";
+
+export const CLUSTER_METHODS = ["lemma", "ngram"] as const;
+export type ClusterMethod = (typeof CLUSTER_METHODS)[number];
+
+// Similarity a phrase needs with a cluster's head to join it
+export const DEFAULT_CLUSTER_THRESHOLD: Record<ClusterMethod, number> = {
+  lemma: 0.5,
+  ngram: 0.4,
+};
+
+export interface ClusterSource {
+  keyword: string;
+  broad_frequency: number;
+  exact_frequency: number;
+}
+
+/**
+ * Lemmas found in more than half of the phrases, usually the seed query.
+ * They join every phrase to every other, so clustering ignores them.
+ * Sets of fewer than 4 phrases have no background.
+ */
+function backgroundLemmas(lemmaSets: Array<Set<string>>): Set<string> {
+  const background = new Set<string>();
+  if (lemmaSets.length < 4) {
+    return background;
+  }
+  const counts = new Map<string, number>();
+  for (const lemmas of lemmaSets) {
+    for (const lemma of lemmas) {
+      counts.set(lemma, (counts.get(lemma) ?? 0) + 1);
+    }
+  }
+  for (const [lemma, count] of counts) {
+    if (count > lemmaSets.length / 2) {
+      background.add(lemma);
+    }
+  }
+  return background;
+}
+
+function trigrams(words: string[]): Set<string> {
+  const grams = new Set<string>();
+  for (const word of words) {
+    const padded = ` ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      grams.add(padded.slice(i, i + 3));
+    }
+  }
+  return grams;
+}
+
+/**
+ * lemma: share of the smaller lemma set found in the other (overlap coefficient).
+ * ngram: Jaccard similarity of character trigrams. Two empty sets are identical.
+ */
+function similarity(a: Set<string>, b: Set<string>, method: ClusterMethod): number {
+  if (a.size === 0 || b.size === 0) {
+    return a.size === b.size ? 1 : 0;
+  }
+  let shared = 0;
+  for (const feature of a) {
+    if (b.has(feature)) shared++;
+  }
+  return method === "lemma" ? shared / Math.min(a.size, b.size) : shared / (a.size + b.size - shared);
+}
+
+/**
+ * Group phrases offline, without SERP data. Phrases are visited by broad
+ * frequency; each joins the most similar existing cluster whose head reaches
+ * 'threshold', or becomes the head of a new one. Clusters come back ordered by
+ * total broad frequency.
+ */
+export function buildClusters(rows: ClusterSource[], method: ClusterMethod, threshold = DEFAULT_CLUSTER_THRESHOLD[method]): KeywordCluster[] {
+  const sorted = [...rows].sort((a, b) => b.broad_frequency - a.broad_frequency);
+  const lemmaSets = sorted.map((row) => new Set(phraseLemmas(row.keyword)));
+  const background = backgroundLemmas(lemmaSets);
+
+  const features = sorted.map((row, i) => {
+    if (method === "lemma") {
+      return new Set([...lemmaSets[i]].filter((lemma) => !background.has(lemma)));
+    }
+    return trigrams(tokenize(row.keyword).filter((word) => !background.has(wordLemma(word))));
+  });
+
+  const clusters: Array<{ cluster: KeywordCluster; features: Set<string> }> = [];
+  // Feature -> clusters whose head has it, so only candidates sharing a feature are compared
+  const index = new Map<string, number[]>();
+  let emptyCluster: number | undefined;
+
+  sorted.forEach((row, i) => {
+    const own = features[i];
+    const candidates = own.size === 0
+      ? (emptyCluster === undefined ? [] : [emptyCluster])
+      : [...new Set([...own].flatMap((feature) => index.get(feature) ?? []))];
+
+    let best: number | undefined;
+    let bestScore = 0;
+    for (const candidate of candidates) {
+      const score = similarity(own, clusters[candidate].features, method);
+      if (score >= threshold && score > bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+
+    if (best === undefined) {
+      best = clusters.length;
+      clusters.push({
+        cluster: {
+          head: row.keyword,
+          lemmas: [...lemmaSets[i]].filter((lemma) => !background.has(lemma)),
+          size: 0,
+          broad_frequency: 0,
+          exact_frequency: 0,
+          members: [],
+        },
+        features: own,
+      });
+      if (own.size === 0) {
+        emptyCluster = best;
+      }
+      for (const feature of own) {
+        const heads = index.get(feature);
+        if (heads) {
+          heads.push(best);
+        } else {
+          index.set(feature, [best]);
+        }
+      }
+    }
+
+    const { cluster } = clusters[best];
+    cluster.size++;
+    cluster.broad_frequency += row.broad_frequency;
+    cluster.exact_frequency += row.exact_frequency;
+    cluster.members.push(row.keyword);
+  });
+
+  return clusters.map(({ cluster }) => cluster).sort((a, b) => b.broad_frequency - a.broad_frequency);
+}
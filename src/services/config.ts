@@ -0,0 +1,89 @@
+import { existsSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { PLANS } from "../constants.js";
+
+/**
+ * Read a numeric environment variable, falling back when it is unset or not a number.
+ */
+export function envNumber(name: string, fallback: number): number {
+  const value = process.env[name];
+  return value !== undefined && value !== "" && Number.isFinite(Number(value)) ? Number(value) : fallback;
+}
+
+const limit = z.number().int().positive();
+
+const PlanLimitsSchema = z.object({
+  max_queries: limit,
+  max_exclusions: limit,
+  max_domains_compare: limit.min(2),
+  max_num: limit,
+}).strict();
+
+const ProfileConfigSchema = z.object({
+  api_key: z.string().min(1),
+  plan: z.string().optional(),
+  // Secret a network client sends in X-Bukvarix-Profile-Token to select the profile;
+  // a profile without one cannot be selected by header
+  access_token: z.string().min(16).optional(),
+}).strict();
+
+const ServerConfigSchema = z.object({
+  // Default plan for keys without a profile plan (BUKVARIX_PLAN overrides)
+  plan: z.string().optional(),
+  // Custom plans, merged over the built-in PLANS
+  plans: z.record(PlanLimitsSchema).default({}),
+  profiles: z.record(ProfileConfigSchema).default({}),
+  default_profile: z.string().optional(),
+  // Brand spellings tagged by classify=true and matched by the 'branded' filter
+  brands: z.array(z.string().min(1)).default([]),
+  // Click-through rate by position for bukvarix_domain_overview, position 1 first
+  ctr_curve: z.array(z.number().min(0).max(1)).min(1).optional(),
+  // Directory bukvarix_export writes to (BUKVARIX_EXPORT_DIR overrides)
+  export_dir: z.string().min(1).optional(),
+  // Directory of saved domain snapshots (BUKVARIX_SNAPSHOT_DIR overrides)
+  snapshot_dir: z.string().min(1).optional(),
+}).strict();
+
+export type ProfileConfig = z.infer<typeof ProfileConfigSchema>;
+export type ServerConfig = z.infer<typeof ServerConfigSchema>;
+
+const DEFAULT_CONFIG_FILE = "bukvarix.config.json";
+
+/**
+ * Load the server config from BUKVARIX_CONFIG, or from bukvarix.config.json in
+ * the working directory if present. A config file that exists but does not
+ * parse stops the server rather than silently falling back to defaults.
+ */
+function loadConfig(): ServerConfig {
+  const file = process.env.BUKVARIX_CONFIG || path.resolve(DEFAULT_CONFIG_FILE);
+  if (!process.env.BUKVARIX_CONFIG && !existsSync(file)) {
+    return ServerConfigSchema.parse({});
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new Error(`Cannot read config file ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const parsed = ServerConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ");
+    throw new Error(`Invalid config file ${file}: ${issues}`);
+  }
+  if (parsed.data.default_profile && !(parsed.data.default_profile in parsed.data.profiles)) {
+    throw new Error(`Invalid config file ${file}: default_profile '${parsed.data.default_profile}' is not defined in profiles`);
+  }
+  const plans = { ...PLANS, ...parsed.data.plans };
+  const planNames = [parsed.data.plan, ...Object.values(parsed.data.profiles).map((profile) => profile.plan)];
+  for (const name of planNames) {
+    if (name && !(name in plans)) {
+      throw new Error(`Invalid config file ${file}: plan '${name}' is neither built-in (${Object.keys(PLANS).join(", ")}) nor defined in plans`);
+    }
+  }
+  return parsed.data;
+}
+
+export const config: ServerConfig = loadConfig();
@@ -0,0 +1,127 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash, timingSafeEqual } from "node:crypto";
+import { config } from "./config.js";
+import { BukvarixError } from "./errors.js";
+
+// Headers accepted on network transports
+export const API_KEY_HEADER = "x-bukvarix-api-key";
+export const PROFILE_HEADER = "x-bukvarix-profile";
+export const PROFILE_TOKEN_HEADER = "x-bukvarix-profile-token";
+
+const FREE_API_KEY = "free";
+
+export interface RequestCredentials {
+  apiKey: string;
+  profile?: string;
+  source: "header" | "profile" | "env" | "default";
+}
+
+const storage = new AsyncLocalStorage<RequestCredentials>();
+
+function headerValue(headers: Record<string, string | string[] | undefined> | undefined, name: string): string | undefined {
+  const value = headers?.[name];
+  const first = Array.isArray(value) ? value[0] : value;
+  return first?.trim() || undefined;
+}
+
+function authError(message: string): BukvarixError {
+  return new BukvarixError({ code: "AUTH", status: 0, message, retryable: false });
+}
+
+function profileCredentials(name: string): RequestCredentials {
+  const profile = config.profiles[name];
+  if (!profile) {
+    throw authError(`Error: Unknown API key profile '${name}'. Check the profiles in the server config file.`);
+  }
+  return { apiKey: profile.api_key, profile: name, source: "profile" };
+}
+
+// Compare digests so the check takes the same time whatever the token length
+const sameSecret = (a: string, b: string) => timingSafeEqual(
+  createHash("sha256").update(a).digest(),
+  createHash("sha256").update(b).digest()
+);
+
+/**
+ * A profile named by a network client spends that profile's paid key, so the
+ * client must also prove it may use it with the profile's access_token.
+ */
+function headerProfileCredentials(name: string, token: string | undefined): RequestCredentials {
+  const accessToken = config.profiles[name]?.access_token;
+  if (!accessToken || !token || !sameSecret(token, accessToken)) {
+    throw authError(`Error: Profile '${name}' cannot be selected by this client. Send the profile's access_token in the X-Bukvarix-Profile-Token header, or pass your own key in X-Bukvarix-Api-Key.`);
+  }
+  return profileCredentials(name);
+}
+
+/**
+ * Resolve the API key for one request, in order: the X-Bukvarix-Api-Key
+ * header, the profile named by X-Bukvarix-Profile (with its access token in
+ * X-Bukvarix-Profile-Token), BUKVARIX_PROFILE or the config's
+ * default_profile, BUKVARIX_API_KEY, and finally the free key.
+ */
+export function resolveCredentials(headers?: Record<string, string | string[] | undefined>): RequestCredentials {
+  const headerKey = headerValue(headers, API_KEY_HEADER);
+  if (headerKey) {
+    return { apiKey: headerKey, source: "header" };
+  }
+
+  const headerProfile = headerValue(headers, PROFILE_HEADER);
+  if (headerProfile) {
+    return headerProfileCredentials(headerProfile, headerValue(headers, PROFILE_TOKEN_HEADER));
+  }
+
+  const profile = process.env.BUKVARIX_PROFILE || config.default_profile;
+  if (profile) {
+    return profileCredentials(profile);
+  }
+
+  if (process.env.BUKVARIX_API_KEY) {
+    return { apiKey: process.env.BUKVARIX_API_KEY, source: "env" };
+  }
+  return { apiKey: FREE_API_KEY, source: "default" };
+}
+
+/**
+ * Run fn with the given credentials; API calls made inside read them back
+ * through currentCredentials().
+ */
+export function runWithCredentials<T>(credentials: RequestCredentials, fn: () => T): T {
+  return storage.run(credentials, fn);
+}
+
+/**
+ * Credentials of the current request; outside a tool call (or over stdio)
+ * this falls back to the profile/env resolution.
+ */
+export function currentCredentials(): RequestCredentials {
+  return storage.getStore() ?? resolveCredentials();
+}
+
+/**
+ * Hex SHA-256 of the current API key. Data kept on disk (cache entries, saved
+ * snapshots) is partitioned by it, so callers with different keys never see
+ * each other's data and the key itself is never written out.
+ */
+export function apiKeyScope(): string {
+  return createHash("sha256").update(currentCredentials().apiKey).digest("hex");
+}
+
+/**
+ * Mask every API key we know about, plus any api_key=... parameter, so keys
+ * never reach logs or error messages.
+ */
+export function redactSecrets(text: string): string {
+  const secrets = new Set<string>([
+    ...Object.values(config.profiles).flatMap((profile) => [profile.api_key, profile.access_token ?? ""]),
+    process.env.BUKVARIX_API_KEY ?? "",
+    storage.getStore()?.apiKey ?? "",
+  ]);
+  let redacted = text.replace(/(api_key=)[^&\s"']+/gi, "$1***");
+  for (const secret of secrets) {
+    if (secret.length >= 4 && secret !== FREE_API_KEY) {
+      redacted = redacted.split(secret).join("***");
+    }
+  }
+  return redacted;
+}
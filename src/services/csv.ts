@@ -0,0 +1,80 @@
+/**
+ * Delimited text per RFC 4180: fields may be quoted, quotes inside quoted
+ * fields are doubled, and quoted fields may contain delimiters and line breaks.
+ */
+
+/**
+ * Parse delimited text into records. Lenient about what the API sends: a
+ * quote opens a quoted field only at the start of a field, LF and CRLF both
+ * end a record, unquoted fields are trimmed and blank lines are skipped.
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let wasQuoted = false;
+
+  const pushField = () => {
+    record.push(wasQuoted ? field : field.trim());
+    field = "";
+    wasQuoted = false;
+  };
+  const pushRecord = () => {
+    pushField();
+    if (record.length > 1 || record[0] !== "") {
+      records.push(record);
+    }
+    record = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char !== '"') {
+        field += char;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        inQuotes = false;
+      }
+      continue;
+    }
+
+    if (char === '"' && !wasQuoted && field.trim() === "") {
+      field = "";
+      inQuotes = true;
+      wasQuoted = true;
+    } else if (char === delimiter) {
+      pushField();
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      pushRecord();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || wasQuoted || record.length > 0) {
+    pushRecord();
+  }
+  return records;
+}
+
+function formatField(value: unknown, delimiter: string): string {
+  const text = value === undefined || value === null ? "" : String(value);
+  return text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim()
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+}
+
+/**
+ * Format records as RFC 4180 text with CRLF line endings.
+ */
+export function formatDelimited(records: unknown[][], delimiter: string): string {
+  return records.map((record) => record.map((value) => formatField(value, delimiter)).join(delimiter)).join("\r\n") + "\r\n";
+}
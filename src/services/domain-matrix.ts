@@ -0,0 +1,84 @@
+import { makeApiRequest, encodePercentEncoding } from "./api-client.js";
+import { normalizeDomainKeywords, keywordKey } from "./normalize.js";
+import { recordSnapshot } from "./snapshots.js";
+import { runChunks, type ChunkResults } from "./chunking.js";
+import { BukvarixError } from "./errors.js";
+import type { ProgressReporter } from "./progress.js";
+import type { DomainKeywordResult, CompetitorMatrixRow } from "../types.js";
+
+export interface DomainRows {
+  domain: string;
+  rows: DomainKeywordResult[];
+}
+
+export interface DomainFetchOptions {
+  num: number;
+  region?: string;
+  bypass_cache?: boolean;
+}
+
+/**
+ * Fetch one domain's keywords from /v1/site/ as json rows and record them as
+ * the domain's latest snapshot.
+ */
+export async function fetchDomainRows(domain: string, options: DomainFetchOptions): Promise<DomainRows> {
+  const requestParams: Record<string, string | number | boolean> = {
+    q: encodePercentEncoding(domain),
+    num: options.num,
+    format: "json",
+  };
+  if (options.region) {
+    requestParams.region = options.region;
+  }
+
+  const response = await makeApiRequest<string | object>(`/v1/site/`, "GET", undefined, requestParams, { bypassCache: options.bypass_cache });
+  const rows = normalizeDomainKeywords(response, "json");
+  recordSnapshot(domain, options.region, options.num, rows);
+  return { domain, rows };
+}
+
+/**
+ * One /v1/site/ call per domain or host. A failed one is left out of
+ * 'results' and listed in 'failures'; the call fails only if all of them do.
+ */
+export async function fetchEachDomain(domains: string[], options: DomainFetchOptions, onProgress: ProgressReporter): Promise<ChunkResults<DomainRows>> {
+  const fetched = await runChunks(domains.map((domain) => [domain]), ([domain]) => fetchDomainRows(domain, options), onProgress);
+  if (fetched.results.length === 0) {
+    throw new BukvarixError(fetched.failures[0].error);
+  }
+  return fetched;
+}
+
+/**
+ * Merge per-domain rows into one row per keyword with every ranking domain's
+ * position. Frequencies come from the first domain that returned the keyword.
+ * Keywords shared by more domains come first, then by broad frequency.
+ */
+export function buildMatrix(results: DomainRows[]): CompetitorMatrixRow[] {
+  const matrix = new Map<string, CompetitorMatrixRow>();
+
+  for (const { domain, rows } of results) {
+    for (const row of rows) {
+      const key = keywordKey(row.keyword);
+      let entry = matrix.get(key);
+      if (!entry) {
+        entry = {
+          keyword: row.keyword,
+          words_count: row.words_count,
+          chars_count: row.chars_count,
+          broad_frequency: row.broad_frequency,
+          exact_frequency: row.exact_frequency,
+          positions: {},
+          domains_count: 0,
+        };
+        matrix.set(key, entry);
+      }
+      if (entry.positions[domain] === undefined) {
+        entry.positions[domain] = row.position;
+        entry.domains_count++;
+      }
+    }
+  }
+
+  return [...matrix.values()].sort((a, b) => b.domains_count - a.domains_count || b.broad_frequency - a.broad_frequency);
+}
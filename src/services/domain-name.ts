@@ -0,0 +1,80 @@
+import { domainToASCII, domainToUnicode } from "node:url";
+import { validationError } from "./errors.js";
+
+export interface NormalizedDomain {
+  // What the caller passed
+  input: string;
+  // Lower-case host in Unicode, the form sent to the API
+  domain: string;
+  // The same host in punycode; equal to 'domain' for ASCII hosts
+  ascii: string;
+}
+
+const LABEL = /^(?!-)[a-z0-9-]{1,63}(?<!-)$/;
+// Letters only, or an internationalized TLD in punycode (.xn--p1ai for .рф)
+const TLD = /^(?:[a-z]{2,63}|xn--[a-z0-9-]{1,59})$/;
+
+/**
+ * Reduce a domain, host or URL to its host name: the scheme, credentials,
+ * port, path, query and trailing dot are dropped and the host is lower-cased.
+ * Punycode and Unicode spellings of an IDN give the same result. With
+ * stripWww, a leading "www." is removed as well.
+ */
+export function normalizeDomain(input: string, stripWww: boolean): NormalizedDomain {
+  const trimmed = input.trim();
+  const invalid = (reason: string) => validationError(`Error: '${input}' is not a valid domain: ${reason}.`);
+
+  let host: string;
+  try {
+    // URL does the IDN mapping to punycode and drops the port and path
+    host = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `http://${trimmed}`).hostname;
+  } catch {
+    throw invalid("it cannot be parsed as a host name or URL");
+  }
+
+  host = host.replace(/\.$/, "");
+  if (stripWww) {
+    host = host.replace(/^www\./, "");
+  }
+
+  const labels = host.split(".");
+  if (labels.length < 2) {
+    throw invalid("a top-level domain is required, e.g. example.com");
+  }
+  if (host.length > 253 || !labels.every((label) => LABEL.test(label))) {
+    throw invalid("host names allow letters, digits and inner hyphens, up to 63 characters per label");
+  }
+  const tld = labels[labels.length - 1];
+  if (!TLD.test(tld)) {
+    throw invalid(`'.${tld}' is not a top-level domain`);
+  }
+
+  const ascii = domainToASCII(host);
+  const domain = domainToUnicode(ascii);
+  if (!ascii || !domain) {
+    throw invalid("the internationalized name is malformed");
+  }
+  return { input, domain, ascii };
+}
+
+/**
+ * Normalize the domain arguments of a tool call. Tools swap their inputs for
+ * 'domains' before doing anything else, so everything past that point sees
+ * normalized hosts; 'targets' is kept for describeNormalization.
+ */
+export function normalizeDomains(inputs: string[], stripWww: boolean): { targets: NormalizedDomain[]; domains: string[] } {
+  const targets = inputs.map((input) => normalizeDomain(input, stripWww));
+  return { targets, domains: targets.map((target) => target.domain) };
+}
+
+/**
+ * Notice for the report header listing the inputs that were rewritten, empty
+ * when every domain was passed in normalized form.
+ */
+export function describeNormalization(domains: NormalizedDomain[]): string {
+  const changed = domains.filter((item) => item.input !== item.domain);
+  if (changed.length === 0) {
+    return "";
+  }
+  return `Normalized ${changed.map((item) => `'${item.input}' to ${item.domain}${item.ascii !== item.domain ? ` (${item.ascii})` : ""}`).join(", ")}.\n\n`;
+}
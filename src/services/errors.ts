@@ -0,0 +1,67 @@
+import type { ApiError, ApiErrorCode } from "../types.js";
+
+/**
+ * Error thrown by the API client and the tools. Carries a machine-readable
+ * code so tools can report it as a structured isError result.
+ */
+export class BukvarixError extends Error implements ApiError {
+  readonly code: ApiErrorCode;
+  readonly status: number;
+  readonly details?: string;
+  readonly retryable: boolean;
+
+  constructor(error: ApiError) {
+    super(error.message);
+    this.name = "BukvarixError";
+    this.code = error.code;
+    this.status = error.status;
+    this.details = error.details;
+    this.retryable = error.retryable;
+  }
+
+  toJSON(): ApiError {
+    return {
+      code: this.code,
+      status: this.status,
+      message: this.message,
+      ...(this.details ? { details: this.details } : {}),
+      retryable: this.retryable,
+    };
+  }
+}
+
+/**
+ * Shorthand for a non-retryable VALIDATION error (bad arguments, unknown cursor, ...).
+ */
+export function validationError(message: string, details?: string): BukvarixError {
+  return new BukvarixError({ code: "VALIDATION", status: 0, message, details, retryable: false });
+}
+
+// Characters of an unexpected response body quoted in error details
+const BODY_EXCERPT_CHARS = 200;
+
+/**
+ * Non-retryable UPSTREAM error for a response we can't read, with the start
+ * of the body in 'details' so the mismatch can be diagnosed.
+ */
+export function unexpectedResponse(message: string, body: unknown): BukvarixError {
+  const text = typeof body === "string" ? body : JSON.stringify(body) ?? String(body);
+  const excerpt = text.length > BODY_EXCERPT_CHARS ? `${text.slice(0, BODY_EXCERPT_CHARS)}...` : text;
+  return new BukvarixError({ code: "UPSTREAM", status: 0, message: `Error: Unexpected response from Bukvarix API: ${message}.`, details: excerpt, retryable: false });
+}
+
+/**
+ * Convert anything thrown inside a tool into an ApiError. Errors that did not
+ * come from the client are reported as non-retryable UPSTREAM failures.
+ */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof BukvarixError) {
+    return error.toJSON();
+  }
+  return {
+    code: "UPSTREAM",
+    status: 0,
+    message: `Error: Unexpected error occurred: ${error instanceof Error ? error.message : String(error)}`,
+    retryable: false,
+  };
+}
@@ -0,0 +1,122 @@
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { config } from "./config.js";
+import { formatDelimited } from "./csv.js";
+import { validationError } from "./errors.js";
+import { buildXlsx } from "./xlsx.js";
+import { reportHeading, type StoredReport } from "./reports.js";
+
+export const EXPORT_FORMATS = ["xlsx", "csv", "jsonl", "markdown"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const CSV_DELIMITERS = [",", ";", "tab"] as const;
+export type CsvDelimiter = (typeof CSV_DELIMITERS)[number];
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  xlsx: ".xlsx",
+  csv: ".csv",
+  jsonl: ".jsonl",
+  markdown: ".md",
+};
+
+export const EXPORT_DIR = process.env.BUKVARIX_EXPORT_DIR || config.export_dir || path.join(os.homedir(), "bukvarix-exports");
+
+export interface ExportOptions {
+  filename?: string;
+  csvDelimiter?: CsvDelimiter;
+}
+
+export interface ExportSummary {
+  path: string;
+  rows: number;
+  columns: string[];
+  bytes: number;
+}
+
+/**
+ * Flatten one row for tabular formats: nested records become dotted columns
+ * ("positions.site.ru", "regions.msk.position") and arrays are joined with ", ".
+ */
+function flattenRow(row: Record<string, unknown>, prefix = "", flat: Record<string, unknown> = {}): Record<string, unknown> {
+  for (const [key, value] of Object.entries(row)) {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (Array.isArray(value)) {
+      flat[name] = value.map((item) => (typeof item === "object" && item !== null ? JSON.stringify(item) : String(item))).join(", ");
+    } else if (typeof value === "object" && value !== null) {
+      flattenRow(value as Record<string, unknown>, name, flat);
+    } else {
+      flat[name] = value;
+    }
+  }
+  return flat;
+}
+
+/**
+ * Flatten all rows into a table. Columns are the union of every row's fields
+ * in order of first appearance; missing cells are left empty.
+ */
+function toTable(rows: unknown[]): { columns: string[]; cells: unknown[][] } {
+  const flat = rows.map((row) => flattenRow(row as Record<string, unknown>));
+  const columns = [...new Set(flat.flatMap((row) => Object.keys(row)))];
+  return { columns, cells: flat.map((row) => columns.map((column) => row[column])) };
+}
+
+function escapeMarkdown(value: unknown): string {
+  return value === undefined || value === null ? "" : String(value).replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+function render(report: StoredReport, format: ExportFormat, columns: string[], cells: unknown[][], options: ExportOptions): string | Buffer {
+  const heading = reportHeading(report);
+
+  switch (format) {
+    case "xlsx":
+      return buildXlsx(heading, columns, cells);
+    case "csv": {
+      const delimiter = options.csvDelimiter === "tab" ? "\t" : options.csvDelimiter ?? ",";
+      // The BOM makes Excel read the file as UTF-8 instead of the system code page
+      return "\uFEFF" + formatDelimited([columns, ...cells], delimiter);
+    }
+    case "jsonl":
+      // Rows as stored, nested fields intact
+      return report.rows.map((row) => JSON.stringify(row)).join("\n") + "\n";
+    case "markdown":
+      return `# ${heading}\n\n| ${columns.map(escapeMarkdown).join(" | ")} |\n|${columns.map(() => "---|").join("")}\n`
+        + cells.map((row) => `| ${row.map(escapeMarkdown).join(" | ")} |\n`).join("");
+  }
+}
+
+function defaultFilename(report: StoredReport): string {
+  const stamp = new Date(report.createdAt).toISOString().replace(/[-:]/g, "").replace("T", "-").slice(0, 15);
+  return `bukvarix-${report.rowsKey}-${stamp}-${report.id.slice(0, 8)}`;
+}
+
+/**
+ * Write every row of a stored report to a file in EXPORT_DIR. Existing files
+ * are never overwritten.
+ */
+export async function exportReport(report: StoredReport, format: ExportFormat, options: ExportOptions = {}): Promise<ExportSummary> {
+  const { columns, cells } = toTable(report.rows);
+  const content = render(report, format, columns, cells, options);
+
+  const base = options.filename ?? defaultFilename(report);
+  const name = base.toLowerCase().endsWith(EXTENSIONS[format]) ? base : base + EXTENSIONS[format];
+  const file = path.join(EXPORT_DIR, name);
+
+  await fs.mkdir(EXPORT_DIR, { recursive: true });
+  try {
+    await fs.writeFile(file, content, { flag: "wx" });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+      throw validationError(`Error: File ${file} already exists. Choose another filename.`);
+    }
+    throw error;
+  }
+
+  return {
+    path: file,
+    rows: report.rows.length,
+    columns,
+    bytes: typeof content === "string" ? Buffer.byteLength(content) : content.length,
+  };
+}
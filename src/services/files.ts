@@ -0,0 +1,14 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+/**
+ * Write a value as JSON, creating the directory if needed. The file is
+ * written under a temporary name and renamed into place, so a concurrent
+ * reader sees either the old file or the whole new one, never a partial file.
+ */
+export async function writeJsonAtomic(file: string, value: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(value), "utf8");
+  await fs.rename(tmp, file);
+}
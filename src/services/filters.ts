@@ -0,0 +1,66 @@
+import { allLemmas, compileMarkers, matchesAny, brandTerms, classifyKeyword } from "./intent.js";
+import { validationError } from "./errors.js";
+import type { KeywordFilters } from "../schemas/common.js";
+import type { KeywordResult } from "../types.js";
+
+export interface FilterResult<T> {
+  rows: T[];
+  filtered_out: number;
+}
+
+/**
+ * Apply client-side post-filters to normalized rows. Word lists and intent
+ * markers match by lemma; all conditions must hold for a row to stay.
+ * 'brands' feeds the intent, branded and geo conditions (see classifyKeyword).
+ */
+export function applyFilters<T extends KeywordResult>(rows: T[], filters?: KeywordFilters, brands: string[] = brandTerms()): FilterResult<T> {
+  if (!filters) {
+    return { rows, filtered_out: 0 };
+  }
+
+  const include = filters.include_words ? compileMarkers(filters.include_words) : undefined;
+  const exclude = filters.exclude_words ? compileMarkers(filters.exclude_words) : undefined;
+  const regex = filters.regex ? new RegExp(filters.regex, "iu") : undefined;
+  const excludeRegex = filters.exclude_regex ? new RegExp(filters.exclude_regex, "iu") : undefined;
+  const inRange = (value: number, min?: number, max?: number) => (min === undefined || value >= min) && (max === undefined || value <= max);
+
+  const kept = rows.filter((row) => {
+    if (!inRange(row.words_count, filters.min_words, filters.max_words)) return false;
+    if (!inRange(row.chars_count, filters.min_chars, filters.max_chars)) return false;
+    if (!inRange(row.broad_frequency, filters.min_broad, filters.max_broad)) return false;
+    if (!inRange(row.exact_frequency, filters.min_exact, filters.max_exact)) return false;
+    if (regex && !regex.test(row.keyword)) return false;
+    if (excludeRegex && excludeRegex.test(row.keyword)) return false;
+
+    if (include || exclude) {
+      const lemmas = allLemmas(row.keyword);
+      if (include && !matchesAny(lemmas, include)) return false;
+      if (exclude && matchesAny(lemmas, exclude)) return false;
+    }
+    if (filters.intent || filters.branded !== undefined || filters.geo !== undefined) {
+      const tags = row.tags ?? classifyKeyword(row.keyword, brands);
+      if (filters.intent && !tags.intents.includes(filters.intent)) return false;
+      if (filters.branded !== undefined && tags.brands.length > 0 !== filters.branded) return false;
+      if (filters.geo !== undefined && tags.cities.length > 0 !== filters.geo) return false;
+    }
+    return true;
+  });
+
+  return { rows: kept, filtered_out: rows.length - kept.length };
+}
+
+/**
+ * Filters work on fetched rows, so they can't narrow an API-side count.
+ */
+export function assertFiltersWithoutCount(filters: KeywordFilters | undefined, resultCount: boolean): void {
+  if (filters && resultCount) {
+    throw validationError("Error: 'filters' cannot be combined with result_count=true. Filters apply to fetched rows; drop result_count and read 'total'.");
+  }
+}
+
+/**
+ * Text notice for the report header, empty when nothing was filtered.
+ */
+export function describeFiltering(filteredOut: number, fetched: number): string {
+  return filteredOut > 0 ? `Filters removed ${filteredOut} of ${fetched} rows.\n\n` : "";
+}
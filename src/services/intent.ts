@@ -0,0 +1,128 @@
+import { tokenize, wordLemma } from "./morphology.js";
+import { domainBrandTerms, isBranded } from "./metrics.js";
+import { config } from "./config.js";
+import { REGIONS } from "../constants.js";
+import type { KeywordTags } from "../types.js";
+
+export const INTENTS = ["commercial", "informational", "navigational", "local"] as const;
+export type Intent = (typeof INTENTS)[number];
+
+// Marker phrases; a phrase carries an intent when it contains every word of one marker
+export const INTENT_MARKERS: Record<Intent, string[]> = {
+  commercial: [
+    "купить", "цена", "стоимость", "прайс", "заказать", "заказ", "доставка", "недорого", "дешево", "недорогой",
+    "дешевый", "магазин", "интернет-магазин", "скидка", "акция", "распродажа", "оптом", "кредит", "рассрочка",
+    "аренда", "арендовать", "снять", "продажа", "услуги", "под ключ", "стоит", "прокат",
+    "buy", "price", "prices", "cost", "cheap", "order", "delivery", "shop", "store", "sale", "discount", "coupon", "rent",
+  ],
+  informational: [
+    "как", "что такое", "почему", "зачем", "своими руками", "инструкция", "схема", "фото", "видео", "википедия",
+    "чем отличается", "что лучше", "рецепт", "значение", "история", "описание", "способы", "виды",
+    "how", "what is", "why", "guide", "tutorial", "diy", "recipe", "meaning", "history", "difference",
+  ],
+  navigational: [
+    "официальный сайт", "сайт", "личный кабинет", "вход", "войти", "регистрация", "горячая линия", "приложение",
+    "official site", "website", "login", "log in", "sign in", "account", "app",
+  ],
+  local: [
+    "рядом", "поблизости", "ближайший", "адрес", "на карте", "метро", "часы работы", "район",
+    "near me", "nearby", "near", "address", "opening hours",
+  ],
+};
+
+// Short and English spellings of the cities behind REGIONS
+const CITY_ALIASES: Record<string, string[]> = {
+  "Москва": ["мск", "moscow"],
+  "Санкт-Петербург": ["петербург", "питер", "спб", "saint petersburg", "st petersburg"],
+  "Новосибирск": ["нск", "novosibirsk"],
+  "Екатеринбург": ["екб", "ekaterinburg", "yekaterinburg"],
+  "Казань": ["kazan"],
+  "Нижний Новгород": ["nizhny novgorod"],
+  "Ростов-на-Дону": ["ростов"],
+  "Киев": ["kiev", "kyiv"],
+  "Минск": ["minsk"],
+  "Астана": ["нур-султан", "astana"],
+};
+
+// "site.ru", "ozon.ru отзывы": a domain in the query is a navigational signal
+const DOMAIN_TOKEN = /[a-zа-я0-9-]+\.(?:ru|рф|su|com|net|org|info|by|kz|ua|uz|io)(?![a-zа-я0-9])/i;
+
+/**
+ * Lemmas of every word of a phrase, stop words included, so markers such as
+ * "как" or "под ключ" can match.
+ */
+export function allLemmas(phrase: string): Set<string> {
+  return new Set(tokenize(phrase).map(wordLemma));
+}
+
+/**
+ * Pre-split marker phrases into lemma lists for matchesAny.
+ */
+export function compileMarkers(markers: string[]): string[][] {
+  return markers.map((marker) => tokenize(marker).map(wordLemma)).filter((lemmas) => lemmas.length > 0);
+}
+
+/**
+ * True if the phrase lemmas contain every lemma of at least one marker.
+ */
+export function matchesAny(lemmas: Set<string>, markers: string[][]): boolean {
+  return markers.some((marker) => marker.every((lemma) => lemmas.has(lemma)));
+}
+
+const COMPILED_MARKERS = Object.fromEntries(
+  INTENTS.map((intent) => [intent, compileMarkers(INTENT_MARKERS[intent])])
+) as Record<Intent, string[][]>;
+
+const CITY_MARKERS = [...new Set(Object.values(REGIONS).flatMap((region) => ("city" in region ? [region.city as string] : [])))]
+  .map((city) => ({ city, markers: compileMarkers([city, ...(CITY_ALIASES[city] ?? [])]) }));
+
+/**
+ * Brands to tag: the 'brands' list of the config file plus the names of the
+ * domains a tool works on.
+ */
+export function brandTerms(domains: string[] = []): string[] {
+  return [...new Set([...config.brands, ...domains.flatMap(domainBrandTerms)])];
+}
+
+/**
+ * Tag a phrase offline. Intents come from marker words; a brand or a domain
+ * in the phrase also makes it navigational and a city makes it local. A
+ * phrase may carry several intents or none.
+ */
+export function classifyKeyword(keyword: string, brands: string[]): KeywordTags {
+  const lemmas = allLemmas(keyword);
+  const matchedBrands = brands.filter((term) => isBranded(keyword, [term]));
+  const cities = CITY_MARKERS.filter(({ markers }) => matchesAny(lemmas, markers)).map(({ city }) => city);
+  const intents = INTENTS.filter((intent) => matchesAny(lemmas, COMPILED_MARKERS[intent])
+    || (intent === "navigational" && (matchedBrands.length > 0 || DOMAIN_TOKEN.test(keyword)))
+    || (intent === "local" && cities.length > 0));
+  return { intents, brands: matchedBrands, cities };
+}
+
+/**
+ * Add 'tags' to every row.
+ */
+export function classifyRows<T extends { keyword: string }>(rows: T[], brands: string[]): Array<T & { tags: KeywordTags }> {
+  return rows.map((row) => ({ ...row, tags: classifyKeyword(row.keyword, brands) }));
+}
+
+/**
+ * Tag counts for the report header, empty when the rows are not tagged.
+ */
+export function describeTags(rows: Array<{ tags?: KeywordTags }>): string {
+  const tagged = rows.flatMap((row) => (row.tags ? [row.tags] : []));
+  if (tagged.length === 0) {
+    return "";
+  }
+  const intents = INTENTS.map((intent) => `${intent} ${tagged.filter((tags) => tags.intents.includes(intent)).length}`).join(", ");
+  const branded = tagged.filter((tags) => tags.brands.length > 0).length;
+  const local = tagged.filter((tags) => tags.cities.length > 0).length;
+  return `Tags: ${intents}; branded ${branded}; with a city ${local}.\n\n`;
+}
+
+/**
+ * classifyRows for tools called with classify=true; other rows pass unchanged.
+ */
+export function tagRows<T extends { keyword: string; tags?: KeywordTags }>(rows: T[], classify: boolean, brands: string[] = brandTerms()): T[] {
+  return classify ? classifyRows(rows, brands) : rows;
+}
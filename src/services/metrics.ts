@@ -0,0 +1,68 @@
+import { keywordKey } from "./normalize.js";
+import type { DomainKeywordResult } from "../types.js";
+
+/**
+ * Share of searches that click organic position 1, 2, ... Positions past the
+ * end of the curve get no clicks. Rough averages for Yandex organic results;
+ * override with 'ctr_curve' in the config file or the tool call.
+ */
+export const DEFAULT_CTR_CURVE = [0.28, 0.15, 0.1, 0.07, 0.055, 0.045, 0.035, 0.03, 0.025, 0.02];
+
+export const POSITION_BUCKETS = [
+  { bucket: "1-3", from: 1, to: 3 },
+  { bucket: "4-10", from: 4, to: 10 },
+  { bucket: "11-50", from: 11, to: 50 },
+  { bucket: "51+", from: 51, to: Infinity },
+] as const;
+
+export function ctrAt(curve: number[], position: number): number {
+  return position >= 1 && position <= curve.length ? curve[Math.floor(position) - 1] : 0;
+}
+
+/**
+ * Estimated monthly clicks of one keyword: exact frequency times the CTR of its position.
+ */
+export function keywordTraffic(row: DomainKeywordResult, curve: number[]): number {
+  return row.exact_frequency * ctrAt(curve, row.position);
+}
+
+/**
+ * Visibility index in percent: estimated traffic as a share of what the same
+ * keywords would bring at position 1.
+ */
+export function visibilityIndex(rows: DomainKeywordResult[], curve: number[]): number {
+  const best = rows.reduce((sum, row) => sum + row.exact_frequency, 0) * (curve[0] ?? 0);
+  const traffic = rows.reduce((sum, row) => sum + keywordTraffic(row, curve), 0);
+  return best > 0 ? traffic / best * 100 : 0;
+}
+
+/**
+ * Brand terms guessed from a domain: its registrable name ("wildberries" for
+ * shop.wildberries.ru, "ozon" for ozon.co.uk).
+ */
+export function domainBrandTerms(domain: string): string[] {
+  const labels = keywordKey(domain).replace(/^www\./, "").split(".").filter(Boolean);
+  if (labels.length < 2) {
+    return labels;
+  }
+  const rest = labels.slice(0, -1);
+  // Skip second-level registry labels such as co.uk, com.ru, org.ua
+  const name = rest.length > 1 && ["co", "com", "org", "net", "spb", "msk"].includes(rest[rest.length - 1])
+    ? rest[rest.length - 2]
+    : rest[rest.length - 1];
+  return [name];
+}
+
+// Lower case, 'ё' folded, spaces and hyphens dropped: "Wild-Berries" and "wildberries" match
+const compact = (text: string) => text.toLowerCase().replace(/ё/g, "е").replace(/[\s-]+/g, "");
+
+/**
+ * Whether a phrase mentions any of the brand terms.
+ */
+export function isBranded(keyword: string, terms: string[]): boolean {
+  const phrase = compact(keyword);
+  return terms.some((term) => {
+    const needle = compact(term);
+    return needle.length > 0 && phrase.includes(needle);
+  });
+}
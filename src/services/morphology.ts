@@ -0,0 +1,153 @@
+/**
+ * Light Russian morphology: a Snowball (Porter) stemmer and a tokenizer. Stems
+ * stand in for lemmas, so "окна", "окно" and "окнами" all map to "окн". It is
+ * a suffix stemmer, not a lemmatizer: forms with a fleeting vowel keep their
+ * own stem ("окон" stays "окон"). Latin words and numbers are kept as they are.
+ */
+
+const VOWELS = "аеиоуыэюя";
+
+const PERFECTIVE_GERUND_1 = ["вшись", "вши", "в"];
+const PERFECTIVE_GERUND_2 = ["ывшись", "ившись", "ывши", "ивши", "ыв", "ив"];
+const ADJECTIVE = ["ими", "ыми", "его", "ого", "ему", "ому", "ее", "ие", "ые", "ое", "ей", "ий", "ый", "ой", "ем", "им", "ым", "ом", "их", "ых", "ую", "юю", "ая", "яя", "ою", "ею"];
+const PARTICIPLE_1 = ["ем", "нн", "вш", "ющ", "щ"];
+const PARTICIPLE_2 = ["ивш", "ывш", "ующ"];
+const REFLEXIVE = ["ся", "сь"];
+const VERB_1 = ["ла", "на", "ете", "йте", "ли", "й", "л", "ем", "н", "ло", "но", "ет", "ют", "ны", "ть", "ешь", "нно"];
+const VERB_2 = ["ила", "ыла", "ена", "ейте", "уйте", "ите", "или", "ыли", "ей", "уй", "ил", "ыл", "им", "ым", "ен", "ило", "ыло", "ено", "ят", "ует", "уют", "ит", "ыт", "ены", "ить", "ыть", "ишь", "ую", "ю"];
+const NOUN = ["а", "ев", "ов", "ие", "ье", "е", "иями", "ями", "ами", "еи", "ии", "и", "ией", "ей", "ой", "ий", "й", "иям", "ям", "ием", "ем", "ам", "ом", "о", "у", "ах", "иях", "ях", "ы", "ь", "ию", "ью", "ю", "ия", "ья", "я"];
+const SUPERLATIVE = ["ейше", "ейш"];
+const DERIVATIONAL = ["ость", "ост"];
+
+// Prepositions, conjunctions and particles that carry no topic
+const STOP_WORDS = new Set([
+  "а", "без", "в", "во", "для", "до", "за", "и", "из", "или", "к", "ко", "как", "ли", "на", "над", "не", "ни",
+  "о", "об", "от", "по", "под", "при", "про", "с", "со", "у", "что", "это", "же", "бы",
+]);
+
+const byLength = (endings: string[]) => [...endings].sort((a, b) => b.length - a.length);
+const ENDINGS = {
+  gerund1: byLength(PERFECTIVE_GERUND_1),
+  gerund2: byLength(PERFECTIVE_GERUND_2),
+  adjective: byLength(ADJECTIVE),
+  participle1: byLength(PARTICIPLE_1),
+  participle2: byLength(PARTICIPLE_2),
+  verb1: byLength(VERB_1),
+  verb2: byLength(VERB_2),
+  noun: byLength(NOUN),
+  superlative: byLength(SUPERLATIVE),
+  derivational: byLength(DERIVATIONAL),
+};
+
+/**
+ * Remove the longest matching ending. Group-1 endings must follow 'а' or 'я',
+ * which stays in the word. Returns undefined when nothing matched.
+ */
+function removeEnding(word: string, endings: string[], afterAYa = false): string | undefined {
+  for (const ending of endings) {
+    if (!word.endsWith(ending)) continue;
+    const rest = word.slice(0, -ending.length);
+    if (afterAYa && !/[ая]$/.test(rest)) continue;
+    return rest;
+  }
+  return undefined;
+}
+
+function removeEither(word: string, group1: string[], group2: string[]): string | undefined {
+  const first = removeEnding(word, group1, true);
+  const second = removeEnding(word, group2);
+  if (first === undefined) return second;
+  if (second === undefined) return first;
+  // Prefer whichever removed the longer ending
+  return first.length <= second.length ? first : second;
+}
+
+// Index just after the first vowel that follows a non-vowel at or after 'from'
+function regionStart(word: string, from: number): number {
+  for (let i = from + 1; i < word.length; i++) {
+    if (!VOWELS.includes(word[i]) && VOWELS.includes(word[i - 1])) {
+      return i + 1;
+    }
+  }
+  return word.length;
+}
+
+/**
+ * Snowball Russian stemmer. Expects a lower-case word with 'ё' replaced by 'е'.
+ */
+export function stemRussian(word: string): string {
+  const firstVowel = [...word].findIndex((char) => VOWELS.includes(char));
+  if (firstVowel === -1) {
+    return word;
+  }
+
+  const prefix = word.slice(0, firstVowel + 1);
+  let rv = word.slice(firstVowel + 1);
+  const r2 = regionStart(word, regionStart(word, 0));
+
+  // Step 1: perfective gerund, or reflexive + adjectival / verb / noun
+  const gerund = removeEither(rv, ENDINGS.gerund1, ENDINGS.gerund2);
+  if (gerund !== undefined) {
+    rv = gerund;
+  } else {
+    rv = removeEnding(rv, REFLEXIVE) ?? rv;
+    const adjective = removeEnding(rv, ENDINGS.adjective);
+    if (adjective !== undefined) {
+      rv = removeEither(adjective, ENDINGS.participle1, ENDINGS.participle2) ?? adjective;
+    } else {
+      rv = removeEither(rv, ENDINGS.verb1, ENDINGS.verb2) ?? removeEnding(rv, ENDINGS.noun) ?? rv;
+    }
+  }
+
+  // Step 2
+  if (rv.endsWith("и")) {
+    rv = rv.slice(0, -1);
+  }
+
+  // Step 3: derivational ending, only inside R2
+  const derivational = removeEnding(rv, ENDINGS.derivational);
+  if (derivational !== undefined && prefix.length + derivational.length >= r2) {
+    rv = derivational;
+  }
+
+  // Step 4
+  const superlative = removeEnding(rv, ENDINGS.superlative);
+  if (superlative !== undefined) {
+    rv = superlative;
+  }
+  if (rv.endsWith("нн")) {
+    rv = rv.slice(0, -1);
+  } else if (rv.endsWith("ь")) {
+    rv = rv.slice(0, -1);
+  }
+
+  return prefix + rv;
+}
+
+/**
+ * Split a phrase into lower-case words ('ё' folded to 'е'). Operators such
+ * as !, + and quotes are dropped.
+ */
+export function tokenize(phrase: string): string[] {
+  return phrase
+    .toLowerCase()
+    .replace(/ё/g, "е")
+    .split(/[^a-zа-я0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Lemma of one tokenized word: the stem of a Cyrillic word, anything else as is.
+ */
+export function wordLemma(word: string): string {
+  return /^[а-я]+$/.test(word) ? stemRussian(word) : word;
+}
+
+/**
+ * Lemmas of a phrase's significant words (stop words removed), in phrase order.
+ */
+export function phraseLemmas(phrase: string): string[] {
+  return tokenize(phrase)
+    .filter((word) => !STOP_WORDS.has(word))
+    .map(wordLemma);
+}
@@ -0,0 +1,176 @@
+import type { KeywordResult, DomainKeywordResult, ComparisonKeywordResult } from "../types.js";
+import type { Format } from "../constants.js";
+import { parseResponse, type ParsedTable } from "./api-client.js";
+import { unexpectedResponse } from "./errors.js";
+
+type Column = keyof ComparisonKeywordResult;
+
+// Positional column layouts for each endpoint family (json arrays and header-less rows)
+const KEYWORD_COLUMNS: Column[] = ["keyword", "words_count", "chars_count", "broad_frequency", "exact_frequency"];
+const DOMAIN_COLUMNS: Column[] = ["keyword", "words_count", "chars_count", "search_results_count", "broad_frequency", "exact_frequency", "position"];
+const COMPARISON_COLUMNS: Column[] = [...DOMAIN_COLUMNS, "position2"];
+const NUMERIC_COLUMNS: Column[] = ["words_count", "chars_count", "search_results_count", "broad_frequency", "exact_frequency", "position", "position2"];
+
+/**
+ * Map a csv/tsv header (Russian or English) to a result column.
+ * Returns undefined for headers we don't recognise. Position and URL are
+ * tested before the results count: "Позиция в поисковой выдаче" also
+ * mentions the search results.
+ */
+function resolveHeader(header: string, seen: Set<Column>): Column | undefined {
+  const h = header.trim().toLowerCase();
+  if (h.includes("ключ") || h === "keyword" || h === "фраза") return "keyword";
+  if (h.includes("позиц") || h.includes("position")) return seen.has("position") ? "position2" : "position";
+  if (h.includes("url") || h.includes("страниц") || h.includes("адрес")) return "url";
+  if (h.includes("символ") || h.includes("chars")) return "chars_count";
+  if (h.includes("слов") || h.includes("words")) return "words_count";
+  if (h.includes("широк") || h.includes("broad")) return "broad_frequency";
+  if (h.includes("точн") || h.includes("exact")) return "exact_frequency";
+  if (h.includes("результат") || h.includes("выдач") || h.includes("results")) return "search_results_count";
+  return undefined;
+}
+
+function toNumber(value: unknown): number {
+  if (typeof value === "number") return Number.isFinite(value) ? value : 0;
+  if (typeof value === "string") {
+    const parsed = Number(value.replace(/\s/g, "").replace(",", "."));
+    return Number.isFinite(parsed) ? parsed : 0;
+  }
+  return 0;
+}
+
+/**
+ * Resolve which result column each cell index holds, using headers when the
+ * wire format carries them and the endpoint's positional layout otherwise.
+ */
+function columnIndex(table: ParsedTable, layout: Column[]): Map<Column, number> {
+  const index = new Map<Column, number>();
+  if (table.headers) {
+    const seen = new Set<Column>();
+    table.headers.forEach((header, i) => {
+      const column = resolveHeader(header, seen);
+      if (column && !seen.has(column)) {
+        seen.add(column);
+        index.set(column, i);
+      }
+    });
+    if (index.has("keyword")) return index;
+    index.clear();
+  }
+  layout.forEach((column, i) => index.set(column, i));
+  return index;
+}
+
+const isMissing = (value: unknown) => value === undefined || value === null || (typeof value === "string" && value.trim() === "");
+
+/**
+ * Build typed rows from a parsed table. Columns absent from the wire format
+ * (everything but the phrase in 'txt') default to 0, except word and
+ * character counts which are derived from the phrase itself. In the other
+ * formats a row with no numeric cell at all means the layout does not match
+ * the endpoint, and is an error rather than a row of zeros.
+ */
+function buildRows(table: ParsedTable, layout: Column[], format: Format): ComparisonKeywordResult[] {
+  const index = columnIndex(table, layout);
+  const cell = (row: unknown[], column: Column): unknown => {
+    const i = index.get(column);
+    return i === undefined ? undefined : row[i];
+  };
+  const numeric = format === "txt" ? [] : NUMERIC_COLUMNS.filter((column) => index.has(column));
+
+  return table.rows
+    .map((row) => {
+      const keyword = String(cell(row, "keyword") ?? "").trim();
+      // Blank lines are dropped below
+      if (keyword && numeric.length > 0 && numeric.every((column) => isMissing(cell(row, column)))) {
+        throw unexpectedResponse(`a row has none of the columns ${numeric.join(", ")}`, row);
+      }
+      const words = cell(row, "words_count");
+      const chars = cell(row, "chars_count");
+      const result: ComparisonKeywordResult = {
+        keyword,
+        words_count: words === undefined ? keyword.split(/\s+/).filter(Boolean).length : toNumber(words),
+        chars_count: chars === undefined ? keyword.length : toNumber(chars),
+        broad_frequency: toNumber(cell(row, "broad_frequency")),
+        exact_frequency: toNumber(cell(row, "exact_frequency")),
+        search_results_count: toNumber(cell(row, "search_results_count")),
+        position: toNumber(cell(row, "position")),
+      };
+      const position2 = cell(row, "position2");
+      if (position2 !== undefined) {
+        result.position2 = toNumber(position2);
+      }
+      const url = cell(row, "url");
+      if (url !== undefined && url !== null && String(url).trim() !== "") {
+        result.url = String(url).trim();
+      }
+      return result;
+    })
+    .filter((row) => row.keyword.length > 0);
+}
+
+/**
+ * Normalize a /v1/keywords/ or /v1/mkeywords/ response into KeywordResult rows.
+ */
+export function normalizeKeywords(data: unknown, format: Format): KeywordResult[] {
+  return buildRows(parseResponse(data, format), KEYWORD_COLUMNS, format).map(
+    ({ keyword, words_count, chars_count, broad_frequency, exact_frequency }) => ({
+      keyword,
+      words_count,
+      chars_count,
+      broad_frequency,
+      exact_frequency,
+    })
+  );
+}
+
+/**
+ * Normalize a /v1/site/ response into DomainKeywordResult rows.
+ */
+export function normalizeDomainKeywords(data: unknown, format: Format): DomainKeywordResult[] {
+  return buildRows(parseResponse(data, format), DOMAIN_COLUMNS, format).map(({ position2: _position2, ...row }) => row);
+}
+
+/**
+ * Normalize a /v1/site_cmp/ or /v1/site_mcmp/ response into comparison rows.
+ */
+export function normalizeComparison(data: unknown, format: Format): ComparisonKeywordResult[] {
+  return buildRows(parseResponse(data, format), COMPARISON_COLUMNS, format);
+}
+
+/**
+ * Parse a result_count response (plain number, numeric string or { total }) into a number.
+ */
+export function parseCount(data: unknown): number {
+  if (typeof data === "number") return data;
+  if (typeof data === "string") return parseInt(data, 10) || 0;
+  if (data && typeof data === "object") {
+    const record = data as Record<string, unknown>;
+    for (const key of ["total", "count", "result_count"]) {
+      if (key in record) return toNumber(record[key]);
+    }
+  }
+  return parseInt(String(data), 10) || 0;
+}
+
+/**
+ * Comparison key for a phrase: lower case with collapsed whitespace.
+ */
+export function keywordKey(keyword: string): string {
+  return keyword.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Drop repeated phrases (case- and whitespace-insensitive), keeping the first row.
+ */
+export function dedupeByKeyword<T extends KeywordResult>(rows: T[]): T[] {
+  const seen = new Set<string>();
+  return rows.filter((row) => {
+    const key = keywordKey(row.keyword);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,21 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+// Owner of everything kept in memory over stdio, where there is one client
+export const LOCAL_OWNER = "local";
+
+const storage = new AsyncLocalStorage<string>();
+
+/**
+ * Run fn on behalf of an owner, the MCP session over HTTP. Reports and
+ * latest domain data stored inside are visible to that owner only.
+ */
+export function runAsOwner<T>(owner: string, fn: () => T): T {
+  return storage.run(owner, fn);
+}
+
+/**
+ * Owner of the current request; LOCAL_OWNER outside runAsOwner (stdio).
+ */
+export function currentOwner(): string {
+  return storage.getStore() ?? LOCAL_OWNER;
+}
@@ -0,0 +1,70 @@
+import { PLANS, type PlanLimits } from "../constants.js";
+import { config } from "./config.js";
+import { currentCredentials } from "./credentials.js";
+import { validationError } from "./errors.js";
+
+export interface Plan extends PlanLimits {
+  name: string;
+}
+
+const plans: Record<string, PlanLimits> = { ...PLANS, ...config.plans };
+
+function resolvePlan(name: string): Plan {
+  const limits = plans[name];
+  if (!limits) {
+    throw new Error(`Unknown plan '${name}'. Available plans: ${Object.keys(plans).join(", ")}`);
+  }
+  return { name, ...limits };
+}
+
+/**
+ * Plan of keys that have no profile plan: BUKVARIX_PLAN, the config's "plan", or free.
+ */
+export const defaultPlan: Plan = resolvePlan(process.env.BUKVARIX_PLAN || config.plan || "free");
+
+/**
+ * Plan of the current request's API key: its profile's plan if it has one,
+ * the default plan otherwise.
+ */
+export function currentPlan(): Plan {
+  const { profile } = currentCredentials();
+  const name = profile ? config.profiles[profile]?.plan : undefined;
+  return name ? resolvePlan(name) : defaultPlan;
+}
+
+/**
+ * Upper bounds for the input schemas: the largest limit of any plan this
+ * server can serve. The request's own plan is enforced by assertWithinPlan.
+ */
+export const schemaLimits: PlanLimits = [defaultPlan, ...Object.values(config.profiles).map((profile) => profile.plan ? resolvePlan(profile.plan) : defaultPlan)]
+  .reduce<PlanLimits>((max, plan) => ({
+    max_queries: Math.max(max.max_queries, plan.max_queries),
+    max_exclusions: Math.max(max.max_exclusions, plan.max_exclusions),
+    max_domains_compare: Math.max(max.max_domains_compare, plan.max_domains_compare),
+    max_num: Math.max(max.max_num, plan.max_num),
+  }), defaultPlan);
+
+/**
+ * Reject a request that exceeds the current plan before it reaches the API.
+ */
+export function assertWithinPlan(request: { queries?: number; exclusions?: number; domains?: number; num?: number }): void {
+  const plan = currentPlan();
+  const checks: Array<[number | undefined, number, string]> = [
+    [request.queries, plan.max_queries, "queries"],
+    [request.exclusions, plan.max_exclusions, "exclusions"],
+    [request.domains, plan.max_domains_compare, "domains for comparison"],
+    [request.num, plan.max_num, "rows ('num')"],
+  ];
+  for (const [value, max, what] of checks) {
+    if (value !== undefined && value > max) {
+      throw validationError(`Error: Plan '${plan.name}' allows at most ${max} ${what}, got ${value}.`);
+    }
+  }
+}
+
+/**
+ * One-line summary of a plan's limits for descriptions and error messages.
+ */
+export function describePlan(plan: Plan): string {
+  return `max ${plan.max_queries} queries, ${plan.max_exclusions} exclusions, ${plan.max_domains_compare} domains for comparison, ${plan.max_num} rows`;
+}
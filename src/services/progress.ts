@@ -0,0 +1,28 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerRequest, ServerNotification } from "@modelcontextprotocol/sdk/types.js";
+
+export type ProgressReporter = (progress: number, total: number, message?: string) => Promise<void>;
+
+// Used when the tool is called outside MCP or the client sent no progressToken
+export const noProgress: ProgressReporter = async () => {};
+
+/**
+ * Progress callback that sends MCP notifications/progress for the calling
+ * request, if the client asked for progress by passing a progressToken.
+ */
+export function progressReporter(extra: RequestHandlerExtra<ServerRequest, ServerNotification>): ProgressReporter {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) {
+    return noProgress;
+  }
+  return async (progress, total, message) => {
+    try {
+      await extra.sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress, total, ...(message ? { message } : {}) },
+      });
+    } catch {
+      // Progress is best-effort; a closed stream must not fail the tool call
+    }
+  };
+}
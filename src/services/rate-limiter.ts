@@ -0,0 +1,56 @@
+import { envNumber } from "./config.js";
+
+/**
+ * Token bucket shared by every tool call, so concurrent calls queue up
+ * instead of stampeding the API.
+ *
+ * BUKVARIX_RATE_LIMIT: sustained requests per second (default 2, 0 disables)
+ * BUKVARIX_RATE_BURST: bucket size, i.e. requests allowed at once (default 5)
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly ratePerSecond: number,
+    private readonly capacity: number
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.ratePerSecond);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Wait until a token is available and take it. Waiters are served in order.
+   */
+  acquire(): Promise<void> {
+    if (this.ratePerSecond <= 0) {
+      return Promise.resolve();
+    }
+    const next = this.queue.then(async () => {
+      this.refill();
+      if (this.tokens < 1) {
+        await sleep(((1 - this.tokens) / this.ratePerSecond) * 1000);
+        this.refill();
+      }
+      this.tokens -= 1;
+    });
+    this.queue = next;
+    return next;
+  }
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export const rateLimiter = new TokenBucket(
+  envNumber("BUKVARIX_RATE_LIMIT", 2),
+  Math.max(1, envNumber("BUKVARIX_RATE_BURST", 5))
+);
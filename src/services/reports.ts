@@ -0,0 +1,226 @@
+import { randomUUID } from "node:crypto";
+import { CHARACTER_LIMIT, REPORT_TTL_MS, MAX_STORED_REPORTS } from "../constants.js";
+import { validationError } from "./errors.js";
+import { currentOwner } from "./owner.js";
+import type { ToolResult } from "./tool-result.js";
+
+// Room kept free on every page for the paging footer
+const FOOTER_RESERVE = 400;
+// Rows always get at least this much of a page, however long the title and its notices grow
+const MIN_PAGE_BUDGET = 5000;
+
+/**
+ * A fetched result held server-side. 'title' is repeated on every page and
+ * 'lines' holds one rendered text line per row, so pages always break on
+ * row boundaries. Only the owner that stored a report can see it.
+ */
+export interface StoredReport<T = unknown, M extends Record<string, unknown> = Record<string, unknown>, K extends string = string> {
+  id: string;
+  // MCP session (or LOCAL_OWNER over stdio) the report was fetched for
+  owner: string;
+  createdAt: number;
+  title: string;
+  lines: string[];
+  rows: T[];
+  // Name of the rows field in structured results ("keywords", "clusters", ...)
+  rowsKey: K;
+  pages: Array<[number, number]>;
+  meta: M;
+}
+
+export interface ReportPage<T = unknown> {
+  text: string;
+  rows: T[];
+  page: number;
+  pages: number;
+  next_cursor?: string;
+}
+
+const reports = new Map<string, StoredReport>();
+
+/**
+ * Drop expired reports and make room for one more report of 'owner'.
+ */
+function evictExpired(now: number, owner: string): void {
+  for (const [id, report] of reports) {
+    if (now - report.createdAt > REPORT_TTL_MS) {
+      reports.delete(id);
+    }
+  }
+  // Map iteration order is insertion order, so the owner's oldest reports go first
+  const owned = [...reports.values()].filter((report) => report.owner === owner);
+  for (const report of owned.slice(0, Math.max(0, owned.length - MAX_STORED_REPORTS + 1))) {
+    reports.delete(report.id);
+  }
+}
+
+/**
+ * Forget every report of an owner, e.g. when its MCP session ends.
+ */
+export function dropReports(owner: string): void {
+  for (const [id, report] of reports) {
+    if (report.owner === owner) {
+      reports.delete(id);
+    }
+  }
+}
+
+/**
+ * Split rendered lines into pages that fit CHARACTER_LIMIT together with the title.
+ * A single line longer than a page still gets a page of its own. A title too
+ * long to leave MIN_PAGE_BUDGET pushes pages past the limit rather than down
+ * to one row each.
+ */
+function paginate(title: string, lines: string[]): Array<[number, number]> {
+  const budget = Math.max(MIN_PAGE_BUDGET, CHARACTER_LIMIT - FOOTER_RESERVE - title.length);
+  const pages: Array<[number, number]> = [];
+  let start = 0;
+  let size = 0;
+  lines.forEach((line, i) => {
+    const cost = line.length + 1;
+    if (i > start && size + cost > budget) {
+      pages.push([start, i]);
+      start = i;
+      size = 0;
+    }
+    size += cost;
+  });
+  pages.push([start, lines.length]);
+  return pages;
+}
+
+/**
+ * Cursor for page 'page' of a report, as accepted by bukvarix_fetch_page.
+ */
+export function encodeCursor(id: string, page: number): string {
+  return Buffer.from(JSON.stringify({ id, page })).toString("base64url");
+}
+
+/**
+ * Store a full result and return it. 'rows' and 'lines' must be index-aligned.
+ */
+export function storeReport<T, M extends Record<string, unknown>, K extends string = "keywords">(
+  title: string,
+  lines: string[],
+  rows: T[],
+  meta: M,
+  rowsKey: K = "keywords" as K
+): StoredReport<T, M, K> {
+  const now = Date.now();
+  const owner = currentOwner();
+  evictExpired(now, owner);
+  const report: StoredReport<T, M, K> = {
+    id: randomUUID(),
+    owner,
+    createdAt: now,
+    title,
+    lines,
+    rows,
+    rowsKey,
+    pages: paginate(title, lines),
+    meta,
+  };
+  reports.set(report.id, report as unknown as StoredReport);
+  return report;
+}
+
+/**
+ * Render page 'page' (1-based) of a stored report.
+ */
+export function getReportPage<T>(report: StoredReport<T, Record<string, unknown>, string>, page: number): ReportPage<T> {
+  const [start, end] = report.pages[page - 1];
+  const pages = report.pages.length;
+  let text = report.title + report.lines.slice(start, end).join("\n");
+  let nextCursor: string | undefined;
+
+  if (page < pages) {
+    nextCursor = encodeCursor(report.id, page + 1);
+    text += `\n\n[Page ${page} of ${pages}: rows ${start + 1}-${end} of ${report.rows.length}. Call bukvarix_fetch_page with cursor "${nextCursor}" for the next page.]`;
+  } else if (pages > 1) {
+    text += `\n\n[Page ${page} of ${pages}: rows ${start + 1}-${end} of ${report.rows.length}. This is the last page.]`;
+  }
+
+  return {
+    text,
+    rows: report.rows.slice(start, end),
+    page,
+    pages,
+    ...(nextCursor ? { next_cursor: nextCursor } : {}),
+  };
+}
+
+/**
+ * Look up a stored report of the current owner by id. Returns undefined once
+ * it has expired, and for reports of other owners.
+ */
+export function findReport(id: string): StoredReport | undefined {
+  const report = reports.get(id);
+  return report && report.owner === currentOwner() && Date.now() - report.createdAt <= REPORT_TTL_MS ? report : undefined;
+}
+
+/**
+ * First line of a report's title without the markdown marker, e.g. "Keyword Search: окна".
+ */
+export function reportHeading(report: StoredReport): string {
+  return report.title.split("\n")[0].replace(/^#+\s*/, "");
+}
+
+/**
+ * The current owner's reports that have not expired, newest first.
+ */
+export function listReports(): StoredReport[] {
+  const now = Date.now();
+  const owner = currentOwner();
+  return [...reports.values()].filter((report) => report.owner === owner && now - report.createdAt <= REPORT_TTL_MS).reverse();
+}
+
+/**
+ * Resolve a cursor returned by a previous page. Throws if it is malformed or
+ * the report has expired.
+ */
+export function resolveCursor(cursor: string): { report: StoredReport; page: number } {
+  let decoded: { id?: unknown; page?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw validationError("Error: Invalid cursor. Use the next_cursor value returned by a previous call.");
+  }
+
+  const report = typeof decoded.id === "string" ? findReport(decoded.id) : undefined;
+  if (!report) {
+    throw validationError("Error: Cursor has expired. Repeat the original tool call to fetch the report again.");
+  }
+
+  const page = Number(decoded.page);
+  if (!Number.isInteger(page) || page < 1 || page > report.pages.length) {
+    throw validationError(`Error: Invalid cursor page. The report has ${report.pages.length} pages.`);
+  }
+
+  return { report, page };
+}
+
+/**
+ * Build a tool result for one page of a report: the page text plus the
+ * report's metadata, its id, its total row count and the page's rows.
+ */
+export function reportResult<T, M extends Record<string, unknown>, K extends string>(
+  report: StoredReport<T, M, K>,
+  page: number
+): ToolResult<M & Record<K, T[]> & { report_id: string; total: number; page: number; pages: number; next_cursor?: string }> {
+  const result = getReportPage(report, page);
+  return {
+    content: [{
+      type: "text",
+      text: result.text,
+    }],
+    structuredContent: {
+      ...report.meta,
+      report_id: report.id,
+      total: report.rows.length,
+      ...({ [report.rowsKey]: result.rows } as Record<K, T[]>),
+      page: result.page,
+      pages: result.pages,
+      ...(result.next_cursor ? { next_cursor: result.next_cursor } : {}),
+    },
+  };
+}
@@ -0,0 +1,155 @@
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { config } from "./config.js";
+import { REGIONS, LATEST_SNAPSHOT_TTL_MS, MAX_LATEST_SNAPSHOTS } from "../constants.js";
+import { validationError } from "./errors.js";
+import { currentOwner } from "./owner.js";
+import { apiKeyScope } from "./credentials.js";
+import { writeJsonAtomic } from "./files.js";
+import { normalizeDomain } from "./domain-name.js";
+import type { DomainKeywordResult } from "../types.js";
+
+// Region the API uses when none is given
+export const DEFAULT_REGION = "msk";
+
+export const SNAPSHOT_DIR = process.env.BUKVARIX_SNAPSHOT_DIR
+  || config.snapshot_dir
+  || path.join(os.homedir(), ".local", "share", "bukvarix-mcp-server", "snapshots");
+
+/**
+ * The full /v1/site/ rows of a domain in one region at one point in time.
+ */
+export interface DomainSnapshot {
+  domain: string;
+  region: string;
+  fetched_at: string;
+  num: number;
+  keywords: DomainKeywordResult[];
+}
+
+interface LatestSnapshot {
+  // MCP session (or LOCAL_OWNER over stdio) that fetched the rows
+  owner: string;
+  storedAt: number;
+  snapshot: DomainSnapshot;
+}
+
+// Latest snapshot per owner, domain and region, in the order they were recorded
+const latest = new Map<string, LatestSnapshot>();
+
+// Every read and write goes through the normalized host, so a URL, www. or punycode spelling finds the same snapshot
+const snapshotDomain = (domain: string) => normalizeDomain(domain, false).domain;
+
+function snapshotKey(owner: string, domain: string, region: string): string {
+  return `${owner}|${snapshotDomain(domain)}|${region}`;
+}
+
+/**
+ * Drop expired snapshots and make room for one more snapshot of 'owner'.
+ */
+function evictExpired(now: number, owner: string): void {
+  for (const [key, entry] of latest) {
+    if (now - entry.storedAt > LATEST_SNAPSHOT_TTL_MS) {
+      latest.delete(key);
+    }
+  }
+  const owned = [...latest.entries()].filter(([, entry]) => entry.owner === owner);
+  for (const [key] of owned.slice(0, Math.max(0, owned.length - MAX_LATEST_SNAPSHOTS + 1))) {
+    latest.delete(key);
+  }
+}
+
+/**
+ * Forget every latest snapshot of an owner, e.g. when its MCP session ends.
+ */
+export function dropSnapshots(owner: string): void {
+  for (const [key, entry] of latest) {
+    if (entry.owner === owner) {
+      latest.delete(key);
+    }
+  }
+}
+
+/**
+ * Remember the rows of a domain fetch as that domain's latest snapshot in the
+ * region, visible to the current owner only. Pass the rows as fetched, before
+ * any filters.
+ */
+export function recordSnapshot(domain: string, region: string | undefined, num: number, keywords: DomainKeywordResult[]): DomainSnapshot {
+  const snapshot: DomainSnapshot = {
+    domain: snapshotDomain(domain),
+    region: region ?? DEFAULT_REGION,
+    fetched_at: new Date().toISOString(),
+    num,
+    keywords,
+  };
+  const owner = currentOwner();
+  const now = Date.now();
+  const key = snapshotKey(owner, snapshot.domain, snapshot.region);
+  // Re-inserting moves a refetched domain to the end, so it is evicted last
+  latest.delete(key);
+  evictExpired(now, owner);
+  latest.set(key, { owner, storedAt: now, snapshot });
+  return snapshot;
+}
+
+export function latestSnapshot(domain: string, region: string): DomainSnapshot | undefined {
+  const entry = latest.get(snapshotKey(currentOwner(), domain, region));
+  return entry && Date.now() - entry.storedAt <= LATEST_SNAPSHOT_TTL_MS ? entry.snapshot : undefined;
+}
+
+/**
+ * Latest snapshots of the current owner, newest first.
+ */
+export function listSnapshots(): DomainSnapshot[] {
+  const owner = currentOwner();
+  const now = Date.now();
+  return [...latest.values()]
+    .filter((entry) => entry.owner === owner && now - entry.storedAt <= LATEST_SNAPSHOT_TTL_MS)
+    .map((entry) => entry.snapshot)
+    .sort((a, b) => b.fetched_at.localeCompare(a.fetched_at));
+}
+
+// Saved snapshots live in <SNAPSHOT_DIR>/<API key hash>/<domain>/<region>/<YYYY-MM-DD>.json;
+// a caller only ever lists and loads the partition of its own key
+function savedDir(domain: string, region: string): string {
+  // The region becomes a path segment, so only known codes get that far
+  if (!(region in REGIONS)) {
+    throw validationError(`Error: Unknown region '${region}'.`);
+  }
+  return path.join(SNAPSHOT_DIR, apiKeyScope(), encodeURIComponent(snapshotDomain(domain)), region);
+}
+
+/**
+ * Save a snapshot to disk under its UTC fetch date and return the date. A
+ * second save on the same day replaces the first.
+ */
+export async function saveSnapshot(snapshot: DomainSnapshot): Promise<string> {
+  const date = snapshot.fetched_at.slice(0, 10);
+  await writeJsonAtomic(path.join(savedDir(snapshot.domain, snapshot.region), `${date}.json`), snapshot);
+  return date;
+}
+
+/**
+ * Dates of the saved snapshots of a domain in a region, oldest first.
+ */
+export async function listSavedSnapshots(domain: string, region: string): Promise<string[]> {
+  try {
+    const names = await fs.readdir(savedDir(domain, region));
+    return names
+      .filter((name) => /^\d{4}-\d{2}-\d{2}\.json$/.test(name))
+      .map((name) => name.slice(0, 10))
+      .sort();
+  } catch {
+    return [];
+  }
+}
+
+export async function loadSnapshot(domain: string, region: string, date: string): Promise<DomainSnapshot | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(savedDir(domain, region), `${date}.json`), "utf8")) as DomainSnapshot;
+  } catch {
+    return undefined;
+  }
+}
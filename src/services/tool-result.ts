@@ -0,0 +1,78 @@
+import { z } from "zod";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerRequest, ServerNotification } from "@modelcontextprotocol/sdk/types.js";
+import { BukvarixError, toApiError } from "./errors.js";
+import { redactSecrets, resolveCredentials, runWithCredentials, type RequestCredentials } from "./credentials.js";
+import type { ApiError } from "../types.js";
+
+export interface ToolResult<T extends Record<string, unknown> = Record<string, unknown>> {
+  [key: string]: unknown;
+  content: Array<{ type: "text"; text: string }>;
+  // An error result carries { error } instead of the tool's output schema
+  structuredContent?: T | { error: ApiError };
+  isError?: boolean;
+}
+
+/**
+ * Build an isError result. The text is for the model; structuredContent.error
+ * carries the code, HTTP status and retryable flag for agents to branch on.
+ */
+export function errorResult(error: unknown): ToolResult<never> {
+  const apiError = toApiError(error);
+  apiError.message = redactSecrets(apiError.message);
+  if (apiError.details) {
+    apiError.details = redactSecrets(apiError.details);
+  }
+  const status = apiError.status ? `, HTTP ${apiError.status}` : "";
+  return {
+    content: [{
+      type: "text",
+      text: `${apiError.message}\n[${apiError.code}${status}${apiError.retryable ? ", retryable" : ""}]`,
+    }],
+    structuredContent: { error: apiError },
+    isError: true,
+  };
+}
+
+/**
+ * Check a tool result against its declared output schema before returning it,
+ * so a change in the upstream API surfaces as a tool error rather than as a
+ * malformed payload.
+ */
+export function checkOutput<S extends z.ZodTypeAny>(schema: S, result: ToolResult<z.infer<S>>): ToolResult<z.infer<S>> {
+  if (result.isError || result.structuredContent === undefined) {
+    return result;
+  }
+  const parsed = schema.safeParse(result.structuredContent);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .slice(0, 5)
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    return errorResult(new BukvarixError({
+      code: "UPSTREAM",
+      status: 0,
+      message: "Error: Unexpected response from Bukvarix API (output validation failed).",
+      details: issues,
+      retryable: false,
+    }));
+  }
+  return { ...result, structuredContent: parsed.data };
+}
+
+/**
+ * Run a tool handler with the API key of the MCP request that invoked it
+ * (see resolveCredentials). An unknown profile becomes an AUTH error result.
+ */
+export async function withCredentials<T extends Record<string, unknown>>(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  handler: () => Promise<ToolResult<T>>
+): Promise<ToolResult<T>> {
+  let credentials: RequestCredentials;
+  try {
+    credentials = resolveCredentials(extra.requestInfo?.headers);
+  } catch (error) {
+    return errorResult(error);
+  }
+  return runWithCredentials(credentials, handler);
+}
@@ -0,0 +1,29 @@
+import { currentCredentials } from "../services/credentials.js";
+import { currentPlan, describePlan } from "../services/plans.js";
+import { checkOutput, errorResult, type ToolResult } from "../services/tool-result.js";
+import { AccountInfoOutputSchema, type AccountInfoOutput } from "../schemas/outputs.js";
+import type { AccountInfoInput } from "../schemas/account.js";
+
+export async function accountInfo(_params: AccountInfoInput): Promise<ToolResult<AccountInfoOutput>> {
+  try {
+    const credentials = currentCredentials();
+    const { name, ...limits } = currentPlan();
+    const profileText = credentials.profile ? ` (profile '${credentials.profile}')` : "";
+
+    return checkOutput(AccountInfoOutputSchema, {
+      content: [{
+        type: "text",
+        text: `# Account\n\nPlan: ${name}\nLimits: ${describePlan({ name, ...limits })}\nAPI key: from ${credentials.source}${profileText}${credentials.apiKey === "free" ? ", free key" : ""}`,
+      }],
+      structuredContent: {
+        plan: name,
+        limits,
+        key_source: credentials.source,
+        profile: credentials.profile,
+        free_key: credentials.apiKey === "free",
+      },
+    });
+  } catch (error) {
+    return errorResult(error);
+  }
+}
@@ -0,0 +1,43 @@
+import { getCacheStats, clearCache } from "../services/cache.js";
+import { checkOutput, errorResult, type ToolResult } from "../services/tool-result.js";
+import { CacheStatsOutputSchema, CacheClearOutputSchema, type CacheStatsOutput, type CacheClearOutput } from "../schemas/outputs.js";
+import type { CacheStatsInput, CacheClearInput } from "../schemas/cache.js";
+
+export async function cacheStats(_params: CacheStatsInput): Promise<ToolResult<CacheStatsOutput>> {
+  try {
+    const stats = await getCacheStats();
+    const endpoints = Object.entries(stats.endpoints)
+      .map(([endpoint, entries]) => `- ${endpoint}: ${entries} entries`)
+      .join("\n");
+    const ttls = Object.entries(stats.ttl_seconds)
+      .map(([endpoint, ttl]) => `- ${endpoint}: ${ttl > 0 ? `${ttl}s` : "disabled"}`)
+      .join("\n");
+
+    return checkOutput(CacheStatsOutputSchema, {
+      content: [{
+        type: "text",
+        text: `# Response Cache${stats.enabled ? "" : " (disabled)"}\n\nDirectory: ${stats.directory}\nEntries: ${stats.entries} (${stats.expired_entries} expired), ${(stats.size_bytes / 1024).toFixed(1)} KB\nLimits (whole directory): ${stats.max_entries > 0 ? `${stats.max_entries} entries` : "no entry limit"}, ${stats.max_bytes > 0 ? `${(stats.max_bytes / 1024 / 1024).toFixed(0)} MB` : "no size limit"}\nSince server start (all callers): ${stats.hits} hits, ${stats.misses} misses, ${stats.writes} writes\n\n## Entries by endpoint\n\n${endpoints || "(empty)"}\n\n## TTL\n\n${ttls}`,
+      }],
+      structuredContent: stats,
+    });
+  } catch (error) {
+    return errorResult(error);
+  }
+}
+
+export async function cacheClear(params: CacheClearInput): Promise<ToolResult<CacheClearOutput>> {
+  try {
+    const removed = await clearCache({ endpoint: params.endpoint, expiredOnly: params.expired_only });
+    const scope = `${params.expired_only ? "expired " : ""}entries${params.endpoint ? ` for ${params.endpoint}` : ""}`;
+
+    return checkOutput(CacheClearOutputSchema, {
+      content: [{
+        type: "text",
+        text: `Removed ${removed} cached ${scope}.`,
+      }],
+      structuredContent: { removed, endpoint: params.endpoint, expired_only: params.expired_only },
+    });
+  } catch (error) {
+    return errorResult(error);
+  }
+}
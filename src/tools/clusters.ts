@@ -0,0 +1,86 @@
+import { makeApiRequest, encodePercentEncoding } from "../services/api-client.js";
+import { normalizeKeywords } from "../services/normalize.js";
+import { storeReport, reportResult, findReport } from "../services/reports.js";
+import { assertWithinPlan } from "../services/plans.js";
+import { buildClusters, DEFAULT_CLUSTER_THRESHOLD, type ClusterSource } from "../services/clustering.js";
+import { validationError } from "../services/errors.js";
+import { checkOutput, errorResult, type ToolResult } from "../services/tool-result.js";
+import { ClusterKeywordsOutputSchema, type ClusterKeywordsOutput } from "../schemas/outputs.js";
+import type { ClusterKeywordsInput } from "../schemas/clusters.js";
+import type { KeywordCluster } from "../types.js";
+
+export async function clusterKeywords(params: ClusterKeywordsInput): Promise<ToolResult<ClusterKeywordsOutput>> {
+  try {
+    if (!params.query === !params.report_id) {
+      throw validationError("Error: Pass exactly one of 'query' or 'report_id'.");
+    }
+
+    const rows = params.report_id ? reportRows(params.report_id) : await searchRows(params);
+    const threshold = params.threshold ?? DEFAULT_CLUSTER_THRESHOLD[params.method];
+    const clusters = buildClusters(rows, params.method, threshold);
+
+    const { title, lines } = formatClustersResponse(clusters, params.query ?? `report ${params.report_id}`, rows.length, params.method, threshold);
+    const report = storeReport(title, lines, clusters, {
+      ...(params.query ? { query: params.query, region: params.region } : { source_report_id: params.report_id }),
+      method: params.method,
+      threshold,
+      keywords_count: rows.length,
+    }, "clusters");
+
+    return checkOutput(ClusterKeywordsOutputSchema, reportResult(report, 1));
+  } catch (error) {
+    return errorResult(error);
+  }
+}
+
+async function searchRows(params: ClusterKeywordsInput): Promise<ClusterSource[]> {
+  assertWithinPlan({ num: params.num });
+  const requestParams: Record<string, string | number | boolean> = {
+    q: encodePercentEncoding(params.query ?? ""),
+    num: params.num,
+    format: "json",
+    report_type: "report",
+    result_count: 0,
+  };
+  if (params.region) {
+    requestParams.region = params.region;
+  }
+
+  // Same request as bukvarix_search_keywords with format 'json', so a cached search is reused
+  const response = await makeApiRequest<string | object>(`/v1/keywords/`, "GET", undefined, requestParams, { bypassCache: params.bypass_cache });
+  return normalizeKeywords(response, "json");
+}
+
+/**
+ * Keyword rows of a stored report. Rows without their own frequencies (region
+ * sweeps) count as 0.
+ */
+function reportRows(reportId: string): ClusterSource[] {
+  const report = findReport(reportId);
+  if (!report) {
+    throw validationError("Error: Report not found or expired. Repeat the original tool call to get a fresh report_id.");
+  }
+  if (report.rowsKey !== "keywords") {
+    throw validationError(`Error: Report ${reportId} holds ${report.rowsKey}, not keywords.`);
+  }
+
+  const frequency = (value: unknown) => (typeof value === "number" ? value : 0);
+  return report.rows.flatMap((row) => {
+    const record = row as Record<string, unknown>;
+    return typeof record.keyword === "string"
+      ? [{ keyword: record.keyword, broad_frequency: frequency(record.broad_frequency), exact_frequency: frequency(record.exact_frequency) }]
+      : [];
+  });
+}
+
+function formatClustersResponse(clusters: KeywordCluster[], source: string, keywords: number, method: string, threshold: number): { title: string; lines: string[] } {
+  const header = `# Keyword Clusters: ${source}\n\n${clusters.length} clusters from ${keywords} keywords (method: ${method}, threshold: ${threshold}):\n\n`;
+  return {
+    title: header,
+    lines: clusters.map((cluster, i) => {
+      const others = cluster.members.filter((member) => member !== cluster.head);
+      const preview = others.slice(0, 10).join(", ") + (others.length > 10 ? `, ... (+${others.length - 10})` : "");
+      return `${i + 1}. **${cluster.head}** - ${cluster.size} phrases, Broad: ${cluster.broad_frequency}, Exact: ${cluster.exact_frequency}${preview ? `\n   ${preview}` : ""}`;
+    }),
+  };
+}
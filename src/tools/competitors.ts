@@ -0,0 +1,161 @@
+import { makeApiRequest, encodePercentEncoding } from "../services/api-client.js";
+import { parseCount } from "../services/normalize.js";
+import { fetchEachDomain, buildMatrix } from "../services/domain-matrix.js";
+import { storeReport, reportResult, encodeCursor } from "../services/reports.js";
+import { assertWithinPlan } from "../services/plans.js";
+import { runChunks, describeFailures } from "../services/chunking.js";
+import { normalizeDomains, describeNormalization } from "../services/domain-name.js";
+import { noProgress, type ProgressReporter } from "../services/progress.js";
+import { brandTerms, tagRows, describeTags } from "../services/intent.js";
+import { arrangeRows, aggregateGroups, describeArrangement } from "../services/arrange.js";
+import { checkOutput, errorResult, type ToolResult } from "../services/tool-result.js";
+import { CompetitorMatrixOutputSchema, type CompetitorMatrixOutput } from "../schemas/outputs.js";
+import type { CompetitorMatrixInput } from "../schemas/competitors.js";
+import { MAX_UNIQUE_KEYWORDS_PER_DOMAIN } from "../constants.js";
+import type { CompetitorMatrixRow, DomainOverlap, UniqueKeywordRow } from "../types.js";
+
+export async function competitorMatrix(input: CompetitorMatrixInput, onProgress: ProgressReporter = noProgress): Promise<ToolResult<CompetitorMatrixOutput>> {
+  try {
+    const normalized = normalizeDomains(input.domains, input.strip_www);
+    const params = { ...input, domains: normalized.domains };
+    const domains = [...new Set(params.domains)];
+    assertWithinPlan({ domains: domains.length, num: params.num });
+
+    const { results, failures, chunks } = await fetchEachDomain(domains, params, onProgress);
+
+    const fetched = results.map(({ domain }) => domain);
+    const keywords = tagRows(buildMatrix(results), params.classify, brandTerms(fetched));
+    const coverage = Object.fromEntries(results.map(({ domain, rows }) => [domain, rows.length]));
+    const uniqueRows = fetched.map((domain) => findUnique(domain, keywords));
+    const unique = Object.fromEntries(fetched.map((domain, i) => [domain, uniqueRows[i].length]));
+    const listed = uniqueRows.flatMap((rows) => rows.slice(0, MAX_UNIQUE_KEYWORDS_PER_DOMAIN));
+    const uniqueText = formatUniqueResponse(listed, fetched, params.region);
+    const uniqueReport = storeReport(uniqueText.title, uniqueText.lines, listed, {}, "unique_keywords");
+    const uniqueKeywords = {
+      report_id: uniqueReport.id,
+      total: listed.length,
+      pages: uniqueReport.pages.length,
+      cursor: encodeCursor(uniqueReport.id, 1),
+      omitted: uniqueRows.reduce((total, rows) => total + rows.length, 0) - listed.length,
+    };
+    const overlap = params.exact_overlap
+      ? await exactOverlap(fetched, keywords, params, onProgress)
+      : fetched.flatMap((domain1, i) => fetched.slice(i + 1).map((domain2) => rowOverlap(domain1, domain2, keywords)));
+
+    const arranged = arrangeRows(keywords, params);
+    const aggregates = aggregateGroups(arranged, params);
+    const { title, lines } = formatMatrixResponse(
+      arranged,
+      fetched,
+      params.region,
+      coverage,
+      unique,
+      uniqueKeywords,
+      overlap,
+      describeNormalization(normalized.targets) + describeFailures(failures, chunks, "domain") + describeTags(keywords) + describeArrangement(params, aggregates)
+    );
+    const report = storeReport(title, lines, arranged, {
+      domains,
+      region: params.region,
+      coverage,
+      unique,
+      unique_keywords: uniqueKeywords,
+      overlap,
+      ...(aggregates ? { aggregates } : {}),
+      chunks,
+      ...(failures.length > 0 ? { failed_chunks: failures } : {}),
+    });
+
+    return checkOutput(CompetitorMatrixOutputSchema, reportResult(report, 1));
+  } catch (error) {
+    return errorResult(error);
+  }
+}
+
+/**
+ * Fetched keywords only 'domain' ranks for, best positions first.
+ */
+function findUnique(domain: string, keywords: CompetitorMatrixRow[]): UniqueKeywordRow[] {
+  return keywords
+    .filter((row) => row.domains_count === 1 && row.positions[domain] !== undefined)
+    .map(({ positions, domains_count: _domainsCount, ...row }) => ({ domain, ...row, position: positions[domain] }))
+    .sort((a, b) => a.position - b.position);
+}
+
+function rowOverlap(domain1: string, domain2: string, keywords: CompetitorMatrixRow[]): DomainOverlap {
+  return {
+    domain1,
+    domain2,
+    common: keywords.filter((row) => row.positions[domain1] !== undefined && row.positions[domain2] !== undefined).length,
+    source: "rows",
+  };
+}
+
+/**
+ * Pairwise overlap from /v1/site_cmp/ counts, which cover each pair's full
+ * keyword sets rather than the top 'num' rows. A pair whose count fails falls
+ * back to the fetched rows.
+ */
+async function exactOverlap(domains: string[], keywords: CompetitorMatrixRow[], params: CompetitorMatrixInput, onProgress: ProgressReporter): Promise<DomainOverlap[]> {
+  const pairs = domains.flatMap((domain1, i) => domains.slice(i + 1).map((domain2) => [domain1, domain2]));
+  const { results } = await runChunks(pairs, async ([domain1, domain2]) => {
+    const requestParams: Record<string, string | number | boolean> = {
+      q: encodePercentEncoding(domain1),
+      q2: encodePercentEncoding(domain2),
+      comparison_type: "intersect",
+      result_count: 1,
+      format: "json",
+    };
+    if (params.region) {
+      requestParams.region = params.region;
+    }
+    const response = await makeApiRequest<string | object>(`/v1/site_cmp/`, "GET", undefined, requestParams, { bypassCache: params.bypass_cache });
+    return { domain1, domain2, common: parseCount(response) };
+  }, onProgress);
+
+  return pairs.map(([domain1, domain2]) => {
+    const found = results.find((result) => result.domain1 === domain1 && result.domain2 === domain2);
+    return found ? { ...found, source: "api" as const } : rowOverlap(domain1, domain2, keywords);
+  });
+}
+
+function formatMatrixResponse(
+  keywords: CompetitorMatrixRow[],
+  domains: string[],
+  region: string | undefined,
+  coverage: Record<string, number>,
+  unique: Record<string, number>,
+  uniqueKeywords: { report_id: string; total: number; cursor: string; omitted: number },
+  overlap: DomainOverlap[],
+  notice = ""
+): { title: string; lines: string[] } {
+  const regionText = region ? ` (${region})` : "";
+  const domainLines = domains.map((domain) => `- ${domain}: ${coverage[domain]} keywords, ${unique[domain]} unique`).join("\n");
+  const omittedText = uniqueKeywords.omitted > 0 ? `, ${uniqueKeywords.omitted} past the first ${MAX_UNIQUE_KEYWORDS_PER_DOMAIN} of a domain left out` : "";
+  const uniqueLine = `Unique keywords are listed in report ${uniqueKeywords.report_id} (${uniqueKeywords.total} rows${omittedText}); call bukvarix_fetch_page with cursor "${uniqueKeywords.cursor}".`;
+  const overlapLines = overlap.map((pair) => `- ${pair.domain1} & ${pair.domain2}: ${pair.common} common${pair.source === "api" ? "" : " (in fetched rows)"}`).join("\n");
+  const header = `# Competitor Matrix: ${domains.join(", ")}${regionText}\n\n${notice}`
+    + `## Domains\n${domainLines}\n\n${uniqueLine}\n\n## Pairwise overlap\n${overlapLines}\n\n`
+    + `## Keywords (${keywords.length}; cells are positions, '-' = not ranking)\n\n`
+    + `| Keyword | Broad | Exact | ${domains.join(" | ")} |\n|---|---|---|${domains.map(() => "---|").join("")}\n`;
+
+  return {
+    title: header,
+    lines: keywords.map((row) => `| ${row.keyword} | ${row.broad_frequency} | ${row.exact_frequency} | ${domains.map((domain) => row.positions[domain] ?? "-").join(" | ")} |`),
+  };
+}
+
+function formatUniqueResponse(
+  keywords: UniqueKeywordRow[],
+  domains: string[],
+  region: string | undefined
+): { title: string; lines: string[] } {
+  const regionText = region ? ` (${region})` : "";
+  const title = `# Unique Keywords: ${domains.join(", ")}${regionText}\n\n`
+    + `Keywords only one of the domains ranks for in the fetched rows (${keywords.length}).\n\n`
+    + `| Domain | Keyword | Position | Broad | Exact |\n|---|---|---|---|---|\n`;
+  return {
+    title,
+    lines: keywords.map((row) => `| ${row.domain} | ${row.keyword} | ${row.position} | ${row.broad_frequency} | ${row.exact_frequency} |`),
+  };
+}
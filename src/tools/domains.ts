@@ -1,10 +1,30 @@
-import { makeApiRequest, encodePercentEncoding, parseResponse } from "../services/api-client.js";
+import { makeApiRequest, encodePercentEncoding } from "../services/api-client.js";
+import { normalizeDomainKeywords, normalizeComparison, parseCount } from "../services/normalize.js";
 import { GetDomainKeywordsSchema, CompareDomainsSchema, type GetDomainKeywordsInput, type CompareDomainsInput } from "../schemas/domains.js";
-import { CHARACTER_LIMIT } from "../constants.js";
+import { storeReport, reportResult } from "../services/reports.js";
+import { assertWithinPlan, currentPlan } from "../services/plans.js";
+import { chunkArray, runChunks, describeFailures } from "../services/chunking.js";
+import { BukvarixError, validationError } from "../services/errors.js";
+import { noProgress, type ProgressReporter } from "../services/progress.js";
+import { recordSnapshot, saveSnapshot } from "../services/snapshots.js";
+import { normalizeDomain, normalizeDomains, describeNormalization, type NormalizedDomain } from "../services/domain-name.js";
+import { applyFilters, assertFiltersWithoutCount, describeFiltering } from "../services/filters.js";
+import { brandTerms, tagRows, describeTags } from "../services/intent.js";
+import { arrangeRows, aggregateGroups, describeArrangement } from "../services/arrange.js";
+import { checkOutput, errorResult, type ToolResult } from "../services/tool-result.js";
+import { GetDomainKeywordsOutputSchema, CompareDomainsOutputSchema, type GetDomainKeywordsOutput, type CompareDomainsOutput } from "../schemas/outputs.js";
+import type { DomainKeywordResult, ComparisonKeywordResult } from "../types.js";
 
-export async function getDomainKeywords(params: GetDomainKeywordsInput): Promise<{ content: Array<{ type: "text"; text: string }>; structuredContent?: any }> {
+export async function getDomainKeywords(params: GetDomainKeywordsInput): Promise<ToolResult<GetDomainKeywordsOutput>> {
   try {
-    const encodedDomain = encodePercentEncoding(params.domain);
+    assertWithinPlan({ num: params.num });
+    assertFiltersWithoutCount(params.filters, params.result_count);
+    if (params.save_snapshot && (params.result_count || params.format === "txt")) {
+      throw validationError("Error: save_snapshot needs positions and frequencies. Use format 'json', 'csv' or 'tsv' without result_count.");
+    }
+    const target = normalizeDomain(params.domain, params.strip_www);
+    const domain = target.domain;
+    const encodedDomain = encodePercentEncoding(domain);
     const endpoint = `/v1/site/`;
 
     const requestParams: Record<string, string | number | boolean> = {
@@ -22,44 +42,77 @@ export async function getDomainKeywords(params: GetDomainKeywordsInput): Promise
       endpoint,
       "GET",
       undefined,
-      requestParams
+      requestParams,
+      { bypassCache: params.bypass_cache }
     );
 
     if (params.result_count) {
-      const count = typeof response === "string" ? parseInt(response, 10) : (typeof response === "number" ? response : parseInt(String(response), 10));
-      return {
+      const count = parseCount(response);
+      return checkOutput(GetDomainKeywordsOutputSchema, {
         content: [{
           type: "text",
-          text: `Total keywords found for ${params.domain}: ${count}`,
+          text: `${describeNormalization([target])}Total keywords found for ${domain}: ${count}`,
         }],
-        structuredContent: { total: count, domain: params.domain },
-      };
+        structuredContent: { total: count, domain, ...domainForms(target) },
+      });
     }
 
-    const parsed = parseResponse(response, params.format);
-    const textContent = formatDomainResponse(parsed, params.format, params.domain, params.region);
+    const fetched = normalizeDomainKeywords(response, params.format);
+    // txt responses carry no positions or frequencies
+    let snapshotDate: string | undefined;
+    if (params.format !== "txt") {
+      const snapshot = recordSnapshot(domain, params.region, params.num, fetched);
+      if (params.save_snapshot) {
+        snapshotDate = await saveSnapshot(snapshot);
+      }
+    }
+    const brands = brandTerms([domain]);
+    const { rows: kept, filtered_out } = applyFilters(tagRows(fetched, params.classify, brands), params.filters, brands);
+    const keywords = arrangeRows(kept, params);
+    const aggregates = aggregateGroups(keywords, params);
+    const snapshotNotice = snapshotDate ? `Snapshot of ${fetched.length} rows saved for ${snapshotDate}.\n\n` : "";
+    const { title, lines } = formatDomainResponse(
+      keywords,
+      params.format,
+      domain,
+      params.region,
+      describeNormalization([target]) + snapshotNotice + describeFiltering(filtered_out, fetched.length) + describeTags(keywords)
+        + describeArrangement(params, aggregates)
+    );
+    const report = storeReport(title, lines, keywords, {
+      domain,
+      ...domainForms(target),
+      region: params.region,
+      ...(params.filters ? { filtered_out } : {}),
+      ...(aggregates ? { aggregates } : {}),
+      ...(snapshotDate ? { snapshot_date: snapshotDate } : {}),
+    });
 
-    return {
-      content: [{
-        type: "text",
-        text: textContent.length > CHARACTER_LIMIT
-          ? textContent.substring(0, CHARACTER_LIMIT) + `\n\n[Response truncated. Use 'num' parameter to limit results.]`
-          : textContent,
-      }],
-      structuredContent: parsed,
-    };
+    return checkOutput(GetDomainKeywordsOutputSchema, reportResult(report, 1));
   } catch (error) {
-    return {
-      content: [{
-        type: "text",
-        text: error instanceof Error ? error.message : String(error),
-      }],
-    };
+    return errorResult(error);
   }
 }
 
-export async function compareDomains(params: CompareDomainsInput): Promise<{ content: Array<{ type: "text"; text: string }>; structuredContent?: any }> {
+export async function compareDomains(input: CompareDomainsInput, onProgress: ProgressReporter = noProgress): Promise<ToolResult<CompareDomainsOutput>> {
   try {
+    assertWithinPlan({ num: input.num });
+    assertFiltersWithoutCount(input.filters, input.result_count);
+    const { targets, domains } = normalizeDomains(input.domains, input.strip_www);
+    const params = { ...input, domains };
+    const forms = domainsForms(targets);
+    const maxDomains = currentPlan().max_domains_compare;
+    if (params.domains.length > maxDomains) {
+      // Groups are intersected from their top 'num' rows, so a count would only be a lower bound
+      if (params.result_count) {
+        throw validationError(`Error: result_count is not available when comparing more than ${maxDomains} domains. Compare at most ${maxDomains} domains, or drop result_count to get the intersected rows.`);
+      }
+      if (params.comparison_type !== "intersect") {
+        throw validationError(`Error: comparison_type '${params.comparison_type}' is not available when comparing more than ${maxDomains} domains; the groups can only be intersected. Use 'intersect', or compare exactly 2 domains.`);
+      }
+      return await compareDomainsChunked(params, targets, maxDomains, onProgress);
+    }
+
     const isTwoDomains = params.domains.length === 2;
     const endpoint = isTwoDomains ? `/v1/site_cmp/` : `/v1/site_mcmp/`;
 
@@ -87,127 +140,178 @@ export async function compareDomains(params: CompareDomainsInput): Promise<{ con
         endpoint,
         isTwoDomains ? "GET" : "POST",
         isTwoDomains ? undefined : requestParams as Record<string, string>,
-        isTwoDomains ? requestParams : undefined
+        isTwoDomains ? requestParams : undefined,
+        { bypassCache: params.bypass_cache }
       );
 
-      const count = typeof response === "string" ? parseInt(response, 10) : (typeof response === "number" ? response : parseInt(String(response), 10));
-      return {
+      const count = parseCount(response);
+      return checkOutput(CompareDomainsOutputSchema, {
         content: [{
           type: "text",
-          text: `Total keywords found: ${count}`,
+          text: `${describeNormalization(targets)}Total keywords found: ${count}`,
         }],
-        structuredContent: { total: count, domains: params.domains, comparison_type: params.comparison_type },
-      };
-    }
-
-    let response: string | object;
-    if (isTwoDomains) {
-      const requestParams: Record<string, string | number | boolean> = {
-        q: encodePercentEncoding(params.domains[0]),
-        q2: encodePercentEncoding(params.domains[1]),
-        num: params.num,
-        format: params.format,
-        comparison_type: params.comparison_type,
-      };
-      if (params.region) {
-        requestParams.region = params.region;
-      }
-      response = await makeApiRequest<string | object>(endpoint, "GET", undefined, requestParams);
-    } else {
-      const postData: Record<string, string> = {
-        q: params.domains.map(d => encodePercentEncoding(d)).join("\r\n"),
-        num: String(params.num),
-        format: params.format,
-      };
-      if (params.region) {
-        postData.region = params.region;
-      }
-      response = await makeApiRequest<string | object>(endpoint, "POST", postData);
+        structuredContent: { total: count, domains: params.domains, ...forms, comparison_type: params.comparison_type },
+      });
     }
 
-    const parsed = parseResponse(response, params.format);
-    const textContent = formatComparisonResponse(parsed, params.format, params.domains, params.comparison_type, params.region);
+    const brands = brandTerms(params.domains);
+    const fetched = tagRows(await fetchComparison(params.domains, params, params.comparison_type), params.classify, brands);
+    const { rows: kept, filtered_out } = applyFilters(fetched, params.filters, brands);
+    const keywords = arrangeRows(kept, params);
+    const aggregates = aggregateGroups(keywords, params);
+    const { title, lines } = formatComparisonResponse(
+      keywords,
+      params.format,
+      params.domains,
+      params.comparison_type,
+      params.region,
+      describeNormalization(targets) + describeFiltering(filtered_out, fetched.length) + describeTags(keywords)
+        + describeArrangement(params, aggregates)
+    );
+    const report = storeReport(title, lines, keywords, {
+      domains: params.domains,
+      ...forms,
+      comparison_type: params.comparison_type,
+      region: params.region,
+      ...(params.filters ? { filtered_out } : {}),
+      ...(aggregates ? { aggregates } : {}),
+    });
 
-    return {
-      content: [{
-        type: "text",
-        text: textContent.length > CHARACTER_LIMIT
-          ? textContent.substring(0, CHARACTER_LIMIT) + `\n\n[Response truncated. Use 'num' parameter to limit results.]`
-          : textContent,
-      }],
-      structuredContent: { ...parsed, domains: params.domains, comparison_type: params.comparison_type },
-    };
+    return checkOutput(CompareDomainsOutputSchema, reportResult(report, 1));
   } catch (error) {
-    return {
-      content: [{
-        type: "text",
-        text: error instanceof Error ? error.message : String(error),
-      }],
-    };
+    return errorResult(error);
   }
 }
 
-function formatDomainResponse(data: any, format: string, domain: string, region?: string): string {
-  const regionText = region ? ` (${region})` : "";
+/**
+ * Intersection of more domains than the plan compares at once. The first
+ * domain is compared with plan-sized groups of the others, and a keyword is
+ * kept only if every group returned it. 'position' stays the first domain's.
+ * result_count and non-intersect comparison types are rejected before this point.
+ */
+async function compareDomainsChunked(params: CompareDomainsInput, targets: NormalizedDomain[], maxDomains: number, onProgress: ProgressReporter): Promise<ToolResult<CompareDomainsOutput>> {
+  const [first, ...others] = params.domains;
+  const chunks = chunkArray(others, maxDomains - 1).map((group) => [first, ...group]);
+  const { results, failures } = await runChunks(chunks, (domains) => fetchComparison(domains, params, "intersect"), onProgress);
+  if (results.length === 0) {
+    throw new BukvarixError(failures[0].error);
+  }
+
+  const [base, ...rest] = results;
+  const restKeys = rest.map((rows) => new Set(rows.map((row) => row.keyword.toLowerCase())));
+  const intersection = base
+    .filter((row) => restKeys.every((keys) => keys.has(row.keyword.toLowerCase())))
+    .map(({ position2: _position2, ...row }) => row);
+  const brands = brandTerms(params.domains);
+  const { rows: kept, filtered_out } = applyFilters(tagRows(intersection, params.classify, brands), params.filters, brands);
+  const keywords = arrangeRows(kept, params);
+  const aggregates = aggregateGroups(keywords, params);
 
-  if (format === "json") {
-    if (Array.isArray(data)) {
-      return `# Domain Keywords: ${domain}${regionText}\n\nFound ${data.length} keywords:\n\n${data.map((kw, i) => {
-        const keyword = kw.keyword || kw[0] || kw;
-        const position = kw.position !== undefined ? kw.position : kw[5];
-        const broad = kw.broad_frequency || kw[4] || "N/A";
-        const exact = kw.exact_frequency || kw[5] || "N/A";
-        return `${i + 1}. ${keyword} - Position: ${position}, Broad: ${broad}, Exact: ${exact}`;
-      }).join("\n")}`;
+  const meta = {
+    domains: params.domains,
+    ...domainsForms(targets),
+    comparison_type: "intersect" as const,
+    region: params.region,
+    chunks: chunks.length,
+    ...(failures.length > 0 ? { failed_chunks: failures } : {}),
+    ...(params.filters ? { filtered_out } : {}),
+    ...(aggregates ? { aggregates } : {}),
+  };
+
+  const { title, lines } = formatComparisonResponse(
+    keywords,
+    params.format,
+    params.domains,
+    "intersect",
+    params.region,
+    describeNormalization(targets) + describeFailures(failures, chunks.length, "domains") + describeFiltering(filtered_out, intersection.length) + describeTags(keywords)
+      + describeArrangement(params, aggregates)
+  );
+  const report = storeReport(title, lines, keywords, meta);
+
+  return checkOutput(CompareDomainsOutputSchema, reportResult(report, 1));
+}
+
+/**
+ * Original spellings for the result, present only when normalization changed something.
+ */
+function domainForms(target: NormalizedDomain): { domain_input?: string; domain_punycode?: string } {
+  return {
+    ...(target.input !== target.domain ? { domain_input: target.input } : {}),
+    ...(target.ascii !== target.domain ? { domain_punycode: target.ascii } : {}),
+  };
+}
+
+function domainsForms(targets: NormalizedDomain[]): { domains_input?: string[] } {
+  return targets.some((target) => target.input !== target.domain) ? { domains_input: targets.map((target) => target.input) } : {};
+}
+
+async function fetchComparison(domains: string[], params: CompareDomainsInput, comparisonType: CompareDomainsInput["comparison_type"]): Promise<ComparisonKeywordResult[]> {
+  const isTwoDomains = domains.length === 2;
+  const endpoint = isTwoDomains ? `/v1/site_cmp/` : `/v1/site_mcmp/`;
+
+  let response: string | object;
+  if (isTwoDomains) {
+    const requestParams: Record<string, string | number | boolean> = {
+      q: encodePercentEncoding(domains[0]),
+      q2: encodePercentEncoding(domains[1]),
+      num: params.num,
+      format: params.format,
+      comparison_type: comparisonType,
+    };
+    if (params.region) {
+      requestParams.region = params.region;
+    }
+    response = await makeApiRequest<string | object>(endpoint, "GET", undefined, requestParams, { bypassCache: params.bypass_cache });
+  } else {
+    const postData: Record<string, string> = {
+      q: domains.map(d => encodePercentEncoding(d)).join("\r\n"),
+      num: String(params.num),
+      format: params.format,
+    };
+    if (params.region) {
+      postData.region = params.region;
     }
-    return `# Domain Keywords: ${domain}${regionText}\n\n${JSON.stringify(data, null, 2)}`;
+    response = await makeApiRequest<string | object>(endpoint, "POST", postData, undefined, { bypassCache: params.bypass_cache });
   }
 
+  return normalizeComparison(response, params.format);
+}
+
+function formatDomainResponse(keywords: DomainKeywordResult[], format: string, domain: string, region?: string, notice = ""): { title: string; lines: string[] } {
+  const regionText = region ? ` (${region})` : "";
+  const header = `# Domain Keywords: ${domain}${regionText}\n\n${notice}Found ${keywords.length} keywords:\n\n`;
+
   if (format === "txt") {
-    if (Array.isArray(data)) {
-      return `# Domain Keywords: ${domain}${regionText}\n\nFound ${data.length} keywords:\n\n${data.join("\n")}`;
-    }
-    return `# Domain Keywords: ${domain}${regionText}\n\n${String(data)}`;
+    return { title: header, lines: keywords.map((kw) => kw.keyword) };
   }
 
   if (format === "csv" || format === "tsv") {
-    if (data.headers && data.rows) {
-      return `# Domain Keywords: ${domain}${regionText}\n\nFound ${data.rows.length} keywords:\n\n| ${data.headers.join(" | ")} |\n|${data.headers.map(() => "---").join("|")}|\n${data.rows.map((row: Record<string, string>) => `| ${data.headers.map((h: string) => row[h] || "").join(" | ")} |`).join("\n")}`;
-    }
+    return {
+      title: header + `| Keyword | Words | Chars | Results | Broad | Exact | Position |\n|---|---|---|---|---|---|---|\n`,
+      lines: keywords.map((kw) => `| ${kw.keyword} | ${kw.words_count} | ${kw.chars_count} | ${kw.search_results_count} | ${kw.broad_frequency} | ${kw.exact_frequency} | ${kw.position} |`),
+    };
   }
 
-  return `# Domain Keywords: ${domain}${regionText}\n\n${JSON.stringify(data, null, 2)}`;
+  return { title: header, lines: keywords.map((kw, i) => `${i + 1}. ${kw.keyword} - Position: ${kw.position}, Broad: ${kw.broad_frequency}, Exact: ${kw.exact_frequency}`) };
 }
 
-function formatComparisonResponse(data: any, format: string, domains: string[], comparisonType: string, region?: string): string {
+function formatComparisonResponse(keywords: ComparisonKeywordResult[], format: string, domains: string[], comparisonType: string, region?: string, notice = ""): { title: string; lines: string[] } {
   const regionText = region ? ` (${region})` : "";
   const comparisonText = comparisonType === "intersect" ? "Common" : comparisonType === "domain1_uniq" ? "Unique to first" : "Unique to second";
-
-  if (format === "json") {
-    if (Array.isArray(data)) {
-      return `# Domain Comparison: ${domains.join(" vs ")}${regionText}\n\n${comparisonText} keywords (${data.length}):\n\n${data.map((kw, i) => {
-        const keyword = kw.keyword || kw[0] || kw;
-        const position = kw.position !== undefined ? kw.position : kw[5];
-        const broad = kw.broad_frequency || kw[4] || "N/A";
-        const exact = kw.exact_frequency || kw[5] || "N/A";
-        return `${i + 1}. ${keyword} - Position: ${position}, Broad: ${broad}, Exact: ${exact}`;
-      }).join("\n")}`;
-    }
-    return `# Domain Comparison: ${domains.join(" vs ")}${regionText}\n\n${JSON.stringify(data, null, 2)}`;
-  }
+  const header = `# Domain Comparison: ${domains.join(" vs ")}${regionText}\n\n${notice}${comparisonText} keywords (${keywords.length}):\n\n`;
+  const positions = (kw: ComparisonKeywordResult) => kw.position2 !== undefined ? `${kw.position} / ${kw.position2}` : String(kw.position);
 
   if (format === "txt") {
-    if (Array.isArray(data)) {
-      return `# Domain Comparison: ${domains.join(" vs ")}${regionText}\n\n${comparisonText} keywords (${data.length}):\n\n${data.join("\n")}`;
-    }
-    return `# Domain Comparison: ${domains.join(" vs ")}${regionText}\n\n${String(data)}`;
+    return { title: header, lines: keywords.map((kw) => kw.keyword) };
   }
 
   if (format === "csv" || format === "tsv") {
-    if (data.headers && data.rows) {
-      return `# Domain Comparison: ${domains.join(" vs ")}${regionText}\n\n${comparisonText} keywords (${data.rows.length}):\n\n| ${data.headers.join(" | ")} |\n|${data.headers.map(() => "---").join("|")}|\n${data.rows.map((row: Record<string, string>) => `| ${data.headers.map((h: string) => row[h] || "").join(" | ")} |`).join("\n")}`;
-    }
+    return {
+      title: header + `| Keyword | Words | Chars | Results | Broad | Exact | Positions |\n|---|---|---|---|---|---|---|\n`,
+      lines: keywords.map((kw) => `| ${kw.keyword} | ${kw.words_count} | ${kw.chars_count} | ${kw.search_results_count} | ${kw.broad_frequency} | ${kw.exact_frequency} | ${positions(kw)} |`),
+    };
   }
 
-  return `# Domain Comparison: ${domains.join(" vs ")}${regionText}\n\n${JSON.stringify(data, null, 2)}`;
+  return { title: header, lines: keywords.map((kw, i) => `${i + 1}. ${kw.keyword} - Position: ${positions(kw)}, Broad: ${kw.broad_frequency}, Exact: ${kw.exact_frequency}`) };
 }
@@ -0,0 +1,181 @@
+import { makeApiRequest, encodePercentEncoding } from "../services/api-client.js";
+import { normalizeKeywords, keywordKey } from "../services/normalize.js";
+import { storeReport, reportResult } from "../services/reports.js";
+import { assertWithinPlan } from "../services/plans.js";
+import { runChunks, describeFailures, type ChunkFailure } from "../services/chunking.js";
+import { BukvarixError } from "../services/errors.js";
+import { noProgress, type ProgressReporter } from "../services/progress.js";
+import { applyFilters, describeFiltering } from "../services/filters.js";
+import { tagRows, describeTags } from "../services/intent.js";
+import { arrangeRows, aggregateGroups, describeArrangement } from "../services/arrange.js";
+import { checkOutput, errorResult, type ToolResult } from "../services/tool-result.js";
+import { ExpandKeywordsOutputSchema, type ExpandKeywordsOutput } from "../schemas/outputs.js";
+import type { ExpandKeywordsInput } from "../schemas/expand.js";
+import type { KeywordFilters } from "../schemas/common.js";
+import type { ExpandedKeywordRow, ExpansionStop, KeywordResult } from "../types.js";
+
+type Lineage = Pick<ExpandedKeywordRow, "seed" | "parent" | "depth">;
+
+/**
+ * Breadth-first expansion: query the seeds, then the top_n most frequent new
+ * phrases of every queried phrase, round after round, until the depth or a
+ * budget runs out or no new phrases turn up. A phrase is queried at most once
+ * and keeps the lineage of the round that found it first.
+ */
+export async function expandKeywords(params: ExpandKeywordsInput, onProgress: ProgressReporter = noProgress): Promise<ToolResult<ExpandKeywordsOutput>> {
+  try {
+    assertWithinPlan({ num: params.num });
+    const filters = withExclusions(params.filters, params.exclusions);
+
+    // Phrases queried or queued for a query, by key
+    const queued = new Map<string, Lineage>();
+    let frontier: string[] = [];
+    for (const seed of params.seeds) {
+      if (!queued.has(keywordKey(seed))) {
+        queued.set(keywordKey(seed), { seed, depth: 0 });
+        frontier.push(seed);
+      }
+    }
+
+    const found = new Map<string, ExpandedKeywordRow>();
+    const failures: ChunkFailure[] = [];
+    let requests = 0;
+    let rounds = 0;
+    let fetched = 0;
+    let filteredOut = 0;
+    let stoppedBy: ExpansionStop;
+
+    for (;;) {
+      if (frontier.length === 0) { stoppedBy = "exhausted"; break; }
+      if (found.size >= params.max_rows) { stoppedBy = "rows"; break; }
+      if (requests >= params.max_requests) { stoppedBy = "requests"; break; }
+      if (rounds >= params.depth) { stoppedBy = "depth"; break; }
+
+      rounds++;
+      const round = rounds;
+      const batch = frontier.slice(0, params.max_requests - requests);
+      const { results, failures: roundFailures } = await runChunks(
+        batch.map((phrase) => [phrase]),
+        async ([phrase]) => ({ phrase, rows: await fetchExpansion(phrase, params) }),
+        (done, total) => onProgress(done, total, `Round ${round}: ${done} of ${total} phrases queried`)
+      );
+      failures.push(...roundFailures.map((failure) => ({ ...failure, chunk: requests + failure.chunk })));
+      requests += batch.length;
+
+      const next: string[] = [];
+      for (const { phrase, rows } of results) {
+        const origin = queued.get(keywordKey(phrase))!;
+        const kept = applyFilters(rows, filters);
+        fetched += rows.length;
+        filteredOut += kept.filtered_out;
+
+        const children: ExpandedKeywordRow[] = [];
+        for (const row of kept.rows) {
+          const key = keywordKey(row.keyword);
+          if (found.has(key)) continue;
+          // A seed or queued phrase showing up in results keeps its own lineage
+          const known = queued.get(key);
+          const item: ExpandedKeywordRow = { ...row, ...(known ?? { seed: origin.seed, parent: phrase, depth: origin.depth + 1 }) };
+          found.set(key, item);
+          if (!known) children.push(item);
+        }
+
+        for (const child of children.sort((a, b) => b.exact_frequency - a.exact_frequency).slice(0, params.top_n)) {
+          queued.set(keywordKey(child.keyword), { seed: child.seed, parent: child.parent, depth: child.depth });
+          next.push(child.keyword);
+        }
+      }
+      // Phrases cut by the request budget stay queued so 'pending' counts them
+      frontier = [...frontier.slice(batch.length), ...next];
+    }
+
+    if (requests > 0 && failures.length === requests) {
+      throw new BukvarixError(failures[0].error);
+    }
+
+    // Arranged before the max_rows cut, so sort_by decides which phrases are kept
+    const all = arrangeRows(
+      tagRows([...found.values()].sort((a, b) => a.depth - b.depth || b.exact_frequency - a.exact_frequency), params.classify),
+      params
+    );
+    const keywords = all.slice(0, params.max_rows);
+    const aggregates = aggregateGroups(keywords, params);
+    const seeds = [...queued.values()].filter((lineage) => lineage.depth === 0).map((lineage) => lineage.seed);
+    const pending = frontier.length;
+
+    const notice = describeFailures(failures, requests, "phrase")
+      + describeFiltering(filteredOut, fetched)
+      + describeStop(stoppedBy, params, pending, all.length - keywords.length)
+      + describeTags(keywords)
+      + describeArrangement(params, aggregates);
+    const { title, lines } = formatExpansionResponse(keywords, seeds, params.region, rounds, requests, notice);
+    const report = storeReport(title, lines, keywords, {
+      seeds,
+      region: params.region,
+      rounds,
+      requests,
+      stopped_by: stoppedBy,
+      pending,
+      ...(filters ? { filtered_out: filteredOut } : {}),
+      ...(aggregates ? { aggregates } : {}),
+      chunks: requests,
+      ...(failures.length > 0 ? { failed_chunks: failures } : {}),
+    });
+
+    return checkOutput(ExpandKeywordsOutputSchema, reportResult(report, 1));
+  } catch (error) {
+    return errorResult(error);
+  }
+}
+
+/**
+ * Exclusions are lemma-matched negative words, the same as filters.exclude_words.
+ */
+function withExclusions(filters: KeywordFilters | undefined, exclusions: string[] | undefined): KeywordFilters | undefined {
+  if (!exclusions || exclusions.length === 0) {
+    return filters;
+  }
+  return { ...filters, exclude_words: [...(filters?.exclude_words ?? []), ...exclusions] };
+}
+
+async function fetchExpansion(phrase: string, params: ExpandKeywordsInput): Promise<KeywordResult[]> {
+  const requestParams: Record<string, string | number | boolean> = {
+    q: encodePercentEncoding(phrase),
+    num: params.num,
+    format: "json",
+  };
+  if (params.region) {
+    requestParams.region = params.region;
+  }
+  const response = await makeApiRequest<string | object>(`/v1/keywords/`, "GET", undefined, requestParams, { bypassCache: params.bypass_cache });
+  return normalizeKeywords(response, "json");
+}
+
+function describeStop(stoppedBy: ExpansionStop, params: ExpandKeywordsInput, pending: number, truncated: number): string {
+  const reasons: Record<ExpansionStop, string> = {
+    depth: `Stopped at depth ${params.depth}; ${pending} phrases of the next round were not queried. Raise 'depth' to continue.`,
+    requests: `Stopped after ${params.max_requests} API requests; ${pending} queued phrases were not queried. Raise 'max_requests' to continue.`,
+    rows: `Stopped at ${params.max_rows} phrases${truncated > 0 ? ` (${truncated} more were cut off)` : ""}; ${pending} queued phrases were not queried. Raise 'max_rows' to continue.`,
+    exhausted: "",
+  };
+  return reasons[stoppedBy] ? `${reasons[stoppedBy]}\n\n` : "";
+}
+
+function formatExpansionResponse(
+  keywords: ExpandedKeywordRow[],
+  seeds: string[],
+  region: string | undefined,
+  rounds: number,
+  requests: number,
+  notice = ""
+): { title: string; lines: string[] } {
+  const regionText = region ? ` (${region})` : "";
+  const header = `# Keyword Expansion: ${seeds.join(", ")}${regionText}\n\n${notice}`
+    + `Found ${keywords.length} keywords in ${rounds} rounds (${requests} API requests):\n\n`
+    + `| Keyword | Depth | Found via | Seed | Broad | Exact |\n|---|---|---|---|---|---|\n`;
+
+  return {
+    title: header,
+    lines: keywords.map((row) => `| ${row.keyword} | ${row.depth} | ${row.parent ?? "-"} | ${row.seed} | ${row.broad_frequency} | ${row.exact_frequency} |`),
+  };
+}
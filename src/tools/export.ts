@@ -0,0 +1,30 @@
+import { findReport } from "../services/reports.js";
+import { exportReport } from "../services/export.js";
+import { validationError } from "../services/errors.js";
+import { checkOutput, errorResult, type ToolResult } from "../services/tool-result.js";
+import { ExportOutputSchema, type ExportOutput } from "../schemas/outputs.js";
+import type { ExportInput } from "../schemas/export.js";
+
+export async function exportToFile(params: ExportInput): Promise<ToolResult<ExportOutput>> {
+  try {
+    const report = findReport(params.report_id);
+    if (!report) {
+      throw validationError("Error: Report not found or expired. Repeat the original tool call and export its report_id.");
+    }
+
+    const summary = await exportReport(report, params.format, {
+      filename: params.filename,
+      csvDelimiter: params.csv_delimiter,
+    });
+
+    return checkOutput(ExportOutputSchema, {
+      content: [{
+        type: "text",
+        text: `Exported ${summary.rows} rows (${summary.columns.length} columns) to ${summary.path} (${(summary.bytes / 1024).toFixed(1)} KB).\n\nColumns: ${summary.columns.join(", ")}`,
+      }],
+      structuredContent: { report_id: report.id, format: params.format, ...summary },
+    });
+  } catch (error) {
+    return errorResult(error);
+  }
+}
@@ -0,0 +1,158 @@
+import { keywordKey } from "../services/normalize.js";
+import { fetchEachDomain, type DomainRows } from "../services/domain-matrix.js";
+import { storeReport, reportResult } from "../services/reports.js";
+import { assertWithinPlan } from "../services/plans.js";
+import { describeFailures } from "../services/chunking.js";
+import { normalizeDomain, describeNormalization, type NormalizedDomain } from "../services/domain-name.js";
+import { noProgress, type ProgressReporter } from "../services/progress.js";
+import { brandTerms, tagRows, describeTags } from "../services/intent.js";
+import { arrangeRows, aggregateGroups, describeArrangement } from "../services/arrange.js";
+import { checkOutput, errorResult, type ToolResult } from "../services/tool-result.js";
+import { SiteFamilyOutputSchema, type SiteFamilyOutput } from "../schemas/outputs.js";
+import type { SiteFamilyInput } from "../schemas/family.js";
+import type { SiteFamilyRow, HostOverlap } from "../types.js";
+
+export async function siteFamily(params: SiteFamilyInput, onProgress: ProgressReporter = noProgress): Promise<ToolResult<SiteFamilyOutput>> {
+  try {
+    assertWithinPlan({ num: params.num });
+    const root = normalizeDomain(params.domain, params.strip_www);
+    const domain = root.domain;
+    const targets = familyHosts(root, params);
+    const hosts = targets.map((target) => target.domain);
+
+    const { results, failures, chunks } = await fetchEachDomain(hosts, params, onProgress);
+
+    const fetched = results.map(({ domain: host }) => host);
+    const merged = tagRows(mergeFamily(results), params.classify, brandTerms([domain]));
+    const keywords = arrangeRows(params.cannibalized_only ? merged.filter((row) => row.cannibalized) : merged, params);
+    const aggregates = aggregateGroups(keywords, params);
+    const coverage = Object.fromEntries(results.map(({ domain: host, rows }) => [host, rows.length]));
+    const best = Object.fromEntries(fetched.map((host) => [host, merged.filter((row) => row.host === host).length]));
+    const cannibalized = merged.filter((row) => row.cannibalized).length;
+    const overlap: HostOverlap[] = fetched
+      .flatMap((host1, i) => fetched.slice(i + 1).map((host2) => ({
+        host1,
+        host2,
+        keywords: merged.filter((row) => row.positions[host1] !== undefined && row.positions[host2] !== undefined).length,
+      })))
+      .filter((pair) => pair.keywords > 0);
+
+    const { title, lines } = formatFamilyResponse(
+      keywords,
+      domain,
+      fetched,
+      params.region,
+      coverage,
+      best,
+      cannibalized,
+      overlap,
+      describeNormalization(targets) + describeFailures(failures, chunks, "host") + describeTags(keywords) + describeArrangement(params, aggregates)
+    );
+    const report = storeReport(title, lines, keywords, {
+      domain,
+      hosts,
+      region: params.region,
+      coverage,
+      best,
+      cannibalized,
+      overlap,
+      ...(aggregates ? { aggregates } : {}),
+      chunks,
+      ...(failures.length > 0 ? { failed_chunks: failures } : {}),
+    });
+
+    return checkOutput(SiteFamilyOutputSchema, reportResult(report, 1));
+  } catch (error) {
+    return errorResult(error);
+  }
+}
+
+/**
+ * Hosts to fetch, root first. A bare label such as "shop" names a subdomain
+ * of the root domain; anything with a dot is taken as a full host name or URL.
+ * strip_www applies to the root only, so "www" or "www.example.com" in hosts
+ * still fetches the www mirror.
+ */
+function familyHosts(root: NormalizedDomain, params: SiteFamilyInput): NormalizedDomain[] {
+  const hosts = params.hosts.map((host) => normalizeDomain(host.includes(".") ? host : `${host}.${root.domain}`, false));
+  const unique = new Map((params.include_root ? [root, ...hosts] : hosts).map((target) => [target.domain, target]));
+  return [...unique.values()];
+}
+
+// Unknown positions (0) lose to any known one
+const rank = (position: number) => (position > 0 ? position : Infinity);
+
+/**
+ * One row per keyword with every host's position. The keyword goes to the host
+ * with the best position; ties go to the host listed first. Frequencies come
+ * from the first host that returned the keyword. Ordered by exact frequency.
+ */
+function mergeFamily(results: DomainRows[]): SiteFamilyRow[] {
+  const merged = new Map<string, SiteFamilyRow>();
+
+  for (const { domain: host, rows } of results) {
+    for (const row of rows) {
+      const key = keywordKey(row.keyword);
+      const entry = merged.get(key);
+      if (!entry) {
+        merged.set(key, {
+          keyword: row.keyword,
+          words_count: row.words_count,
+          chars_count: row.chars_count,
+          broad_frequency: row.broad_frequency,
+          exact_frequency: row.exact_frequency,
+          host,
+          position: row.position,
+          ...(row.url ? { url: row.url } : {}),
+          positions: { [host]: row.position },
+          hosts_count: 1,
+          cannibalized: false,
+        });
+        continue;
+      }
+      if (entry.positions[host] !== undefined) continue;
+
+      entry.positions[host] = row.position;
+      entry.hosts_count++;
+      entry.cannibalized = true;
+      if (rank(row.position) < rank(entry.position)) {
+        entry.host = host;
+        entry.position = row.position;
+        if (row.url) {
+          entry.url = row.url;
+        } else {
+          delete entry.url;
+        }
+      }
+    }
+  }
+
+  return [...merged.values()].sort((a, b) => b.exact_frequency - a.exact_frequency || b.broad_frequency - a.broad_frequency);
+}
+
+function formatFamilyResponse(
+  keywords: SiteFamilyRow[],
+  domain: string,
+  hosts: string[],
+  region: string | undefined,
+  coverage: Record<string, number>,
+  best: Record<string, number>,
+  cannibalized: number,
+  overlap: HostOverlap[],
+  notice = ""
+): { title: string; lines: string[] } {
+  const regionText = region ? ` (${region})` : "";
+  const hostLines = hosts.map((host) => `- ${host}: ${coverage[host]} keywords, best for ${best[host]}`).join("\n");
+  const overlapLines = overlap.length > 0
+    ? overlap.map((pair) => `- ${pair.host1} & ${pair.host2}: ${pair.keywords} shared keywords`).join("\n")
+    : "No keyword is ranked by more than one host.";
+  const header = `# Site Family: ${domain}${regionText}\n\n${notice}`
+    + `## Hosts\n${hostLines}\n\n## Cannibalization (${cannibalized} keywords)\n${overlapLines}\n\n`
+    + `## Keywords (${keywords.length}; host columns are positions, '-' = not ranking)\n\n`
+    + `| Keyword | Exact | Best host | Position | Cannibalized | ${hosts.join(" | ")} |\n|---|---|---|---|---|${hosts.map(() => "---|").join("")}\n`;
+
+  return {
+    title: header,
+    lines: keywords.map((row) => `| ${row.keyword} | ${row.exact_frequency} | ${row.host} | ${row.position || "-"} | ${row.cannibalized ? "yes" : ""} | ${hosts.map((host) => row.positions[host] ?? "-").join(" | ")} |`),
+  };
+}
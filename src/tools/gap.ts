@@ -0,0 +1,204 @@
+import { makeApiRequest, encodePercentEncoding } from "../services/api-client.js";
+import { normalizeComparison, keywordKey } from "../services/normalize.js";
+import { fetchEachDomain, buildMatrix } from "../services/domain-matrix.js";
+import { storeReport, reportResult } from "../services/reports.js";
+import { assertWithinPlan } from "../services/plans.js";
+import { runChunks, describeFailures } from "../services/chunking.js";
+import { BukvarixError, validationError } from "../services/errors.js";
+import { normalizeDomains, describeNormalization } from "../services/domain-name.js";
+import { noProgress, type ProgressReporter } from "../services/progress.js";
+import { brandTerms, tagRows, describeTags } from "../services/intent.js";
+import { arrangeRows, aggregateGroups, describeArrangement } from "../services/arrange.js";
+import { checkOutput, errorResult, type ToolResult } from "../services/tool-result.js";
+import { KeywordGapOutputSchema, type KeywordGapOutput } from "../schemas/outputs.js";
+import type { KeywordGapInput } from "../schemas/gap.js";
+import type { CompetitorMatrixRow, KeywordGapRow } from "../types.js";
+
+export async function keywordGap(input: KeywordGapInput, onProgress: ProgressReporter = noProgress): Promise<ToolResult<KeywordGapOutput>> {
+  try {
+    const { targets, domains: hosts } = normalizeDomains([input.domain, ...input.competitors], input.strip_www);
+    const params = { ...input, domain: hosts[0], competitors: hosts.slice(1) };
+    const competitors = [...new Set(params.competitors)].filter((domain) => domain !== params.domain);
+    if (competitors.length === 0) {
+      throw validationError("Error: At least one competitor different from 'domain' is required.");
+    }
+    assertWithinPlan({ domains: competitors.length + 1, num: params.num });
+
+    // The analysed domain is chunk 1; without it there is nothing to compare against
+    const domains = [params.domain, ...competitors];
+    const { results, failures, chunks } = await fetchEachDomain(domains, params, onProgress);
+    const ownFailure = failures.find((failure) => failure.chunk === 1);
+    if (ownFailure) {
+      throw new BukvarixError(ownFailure.error);
+    }
+    if (results.length === 1) {
+      throw new BukvarixError(failures[0].error);
+    }
+
+    const fetched = results.slice(1).map(({ domain }) => domain);
+    const gaps = findGaps(buildMatrix(results), params, fetched);
+    const verified = params.exact_missing ? await verifyMissing(gaps, params, onProgress) : undefined;
+    const keywords = tagRows(verified?.rows ?? gaps, params.classify, brandTerms(domains));
+    const groups = [...new Set(keywords.map((row) => row.competitors_count))]
+      .map((competitorsCount) => ({
+        competitors_count: competitorsCount,
+        keywords: keywords.filter((row) => row.competitors_count === competitorsCount).length,
+      }));
+    const missing = keywords.filter((row) => row.gap_type === "missing").length;
+
+    const arranged = arrangeRows(keywords, params);
+    const aggregates = aggregateGroups(arranged, params);
+    const { title, lines } = formatGapResponse(
+      arranged,
+      params.domain,
+      fetched,
+      params.region,
+      groups,
+      describeNormalization(targets) + describeFailures(failures, chunks, "domain")
+        + describeMissing(missing, params, verified?.unverified) + describeTags(keywords) + describeArrangement(params, aggregates)
+    );
+    const report = storeReport(title, lines, arranged, {
+      domain: params.domain,
+      competitors,
+      region: params.region,
+      missing,
+      lower: keywords.length - missing,
+      missing_source: verified ? "api" as const : "rows" as const,
+      ...(verified ? { unverified: verified.unverified } : {}),
+      groups,
+      ...(aggregates ? { aggregates } : {}),
+      chunks,
+      ...(failures.length > 0 ? { failed_chunks: failures } : {}),
+    });
+
+    return checkOutput(KeywordGapOutputSchema, reportResult(report, 1));
+  } catch (error) {
+    return errorResult(error);
+  }
+}
+
+/**
+ * Keep keywords that at least min_competitors competitors rank for and the
+ * domain either lacks or trails the best competitor by min_position_gap.
+ * score = exact_frequency / best competitor position, so frequent phrases
+ * where a competitor sits near the top come first within each group.
+ * An unknown competitor position (0) counts as 1; an unknown own position
+ * is not reported as a gap.
+ */
+function findGaps(matrix: CompetitorMatrixRow[], params: KeywordGapInput, competitors: string[]): KeywordGapRow[] {
+  const gaps: KeywordGapRow[] = [];
+
+  for (const row of matrix) {
+    const competitorPositions = Object.fromEntries(
+      competitors.flatMap((domain) => (row.positions[domain] !== undefined ? [[domain, row.positions[domain]]] : []))
+    );
+    const ranked = Object.values(competitorPositions).map((position) => Math.max(position, 1));
+    if (ranked.length < params.min_competitors) {
+      continue;
+    }
+
+    const best = Math.min(...ranked);
+    const own = row.positions[params.domain];
+    if (own !== undefined && (own === 0 || own - best < params.min_position_gap)) {
+      continue;
+    }
+
+    gaps.push({
+      keyword: row.keyword,
+      words_count: row.words_count,
+      chars_count: row.chars_count,
+      broad_frequency: row.broad_frequency,
+      exact_frequency: row.exact_frequency,
+      gap_type: own === undefined ? "missing" : "lower",
+      ...(own !== undefined ? { position: own } : {}),
+      best_competitor_position: best,
+      competitor_positions: competitorPositions,
+      competitors_count: ranked.length,
+      score: Math.round(row.exact_frequency / best),
+    });
+  }
+
+  return gaps.sort((a, b) => b.competitors_count - a.competitors_count || b.score - a.score);
+}
+
+/**
+ * Check "missing" rows against /v1/site_cmp/ with domain2_uniq, one call per
+ * competitor. The comparison returns at most 'num' rows like any other call, so
+ * a keyword absent from it is not proof the domain ranks for it: missing rows
+ * are kept either way and flagged with missing_verified. A row whose
+ * competitors all failed to check stays unflagged.
+ */
+async function verifyMissing(
+  gaps: KeywordGapRow[],
+  params: KeywordGapInput,
+  onProgress: ProgressReporter
+): Promise<{ rows: KeywordGapRow[]; unverified: number }> {
+  const missing = gaps.filter((row) => row.gap_type === "missing");
+  const competitors = [...new Set(missing.flatMap((row) => Object.keys(row.competitor_positions)))];
+  if (competitors.length === 0) {
+    return { rows: gaps, unverified: 0 };
+  }
+
+  const { results } = await runChunks(competitors.map((competitor) => [competitor]), async ([competitor]) => {
+    const requestParams: Record<string, string | number | boolean> = {
+      q: encodePercentEncoding(params.domain),
+      q2: encodePercentEncoding(competitor),
+      comparison_type: "domain2_uniq",
+      num: params.num,
+      format: "json",
+    };
+    if (params.region) {
+      requestParams.region = params.region;
+    }
+    const response = await makeApiRequest<string | object>(`/v1/site_cmp/`, "GET", undefined, requestParams, { bypassCache: params.bypass_cache });
+    return { competitor, keys: new Set(normalizeComparison(response, "json").map((row) => keywordKey(row.keyword))) };
+  }, onProgress);
+
+  const checked = new Map(results.map(({ competitor, keys }) => [competitor, keys]));
+  let unverified = 0;
+  const rows = gaps.map((row) => {
+    if (row.gap_type !== "missing") return row;
+    const lists = Object.keys(row.competitor_positions).flatMap((competitor) => checked.get(competitor) ?? []);
+    if (lists.length === 0) return row;
+    const verified = lists.some((keys) => keys.has(keywordKey(row.keyword)));
+    if (!verified) unverified++;
+    return { ...row, missing_verified: verified };
+  });
+  return { rows, unverified };
+}
+
+/**
+ * Caveat for "missing" rows: without exact_missing they are only absent from
+ * the domain's fetched rows; with it, some may still be unverified.
+ */
+function describeMissing(missing: number, params: KeywordGapInput, unverified: number | undefined): string {
+  if (unverified !== undefined) {
+    return unverified > 0
+      ? `Note: ${unverified} 'missing' keywords were not listed by /v1/site_cmp/ (domain2_uniq, top ${params.num} rows) and are flagged missing_verified=false; ${params.domain} may rank for them below its top ${params.num} rows.\n\n`
+      : "";
+  }
+  return missing > 0
+    ? `Note: 'missing' means not in the top ${params.num} rows of ${params.domain}; it may still rank lower. Set exact_missing=true to check with the API.\n\n`
+    : "";
+}
+
+function formatGapResponse(
+  keywords: KeywordGapRow[],
+  domain: string,
+  competitors: string[],
+  region: string | undefined,
+  groups: Array<{ competitors_count: number; keywords: number }>,
+  notice = ""
+): { title: string; lines: string[] } {
+  const regionText = region ? ` (${region})` : "";
+  const groupLines = groups.map((group) => `- Ranked by ${group.competitors_count} of ${competitors.length} competitors: ${group.keywords} keywords`).join("\n");
+  const header = `# Keyword Gap: ${domain} vs ${competitors.join(", ")}${regionText}\n\n${notice}`
+    + `Found ${keywords.length} gaps:\n${groupLines}\n\n`
+    + `| Keyword | Competitors | Score | Exact | Own position | Best competitor | ${competitors.join(" | ")} |\n`
+    + `|---|---|---|---|---|---|${competitors.map(() => "---|").join("")}\n`;
+
+  return {
+    title: header,
+    lines: keywords.map((row) => `| ${row.keyword} | ${row.competitors_count} | ${row.score} | ${row.exact_frequency} | ${row.position ?? (row.missing_verified === false ? "?" : "-")} | ${row.best_competitor_position} | ${competitors.map((competitor) => row.competitor_positions[competitor] ?? "-").join(" | ")} |`),
+  };
+}
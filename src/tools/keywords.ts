@@ -1,124 +1,163 @@
-import { makeApiRequest, encodePercentEncoding, parseResponse } from "../services/api-client.js";
+import { makeApiRequest, encodePercentEncoding } from "../services/api-client.js";
+import { normalizeKeywords, parseCount, dedupeByKeyword } from "../services/normalize.js";
 import { SearchKeywordsSchema, SearchKeywordsBatchSchema, type SearchKeywordsInput, type SearchKeywordsBatchInput } from "../schemas/keywords.js";
-import { CHARACTER_LIMIT } from "../constants.js";
+import { storeReport, reportResult } from "../services/reports.js";
+import { assertWithinPlan, currentPlan } from "../services/plans.js";
+import { chunkArray, runChunks, describeFailures } from "../services/chunking.js";
+import { BukvarixError } from "../services/errors.js";
+import { noProgress, type ProgressReporter } from "../services/progress.js";
+import { applyFilters, assertFiltersWithoutCount, describeFiltering } from "../services/filters.js";
+import { tagRows, describeTags } from "../services/intent.js";
+import { arrangeRows, aggregateGroups, describeArrangement } from "../services/arrange.js";
+import { checkOutput, errorResult, type ToolResult } from "../services/tool-result.js";
+import { SearchKeywordsOutputSchema, SearchKeywordsBatchOutputSchema, type SearchKeywordsOutput, type SearchKeywordsBatchOutput } from "../schemas/outputs.js";
+import type { KeywordResult } from "../types.js";
 
-export async function searchKeywords(params: SearchKeywordsInput): Promise<{ content: Array<{ type: "text"; text: string }>; structuredContent?: any }> {
+export async function searchKeywords(params: SearchKeywordsInput): Promise<ToolResult<SearchKeywordsOutput>> {
   try {
+    assertWithinPlan({ num: params.num });
+    assertFiltersWithoutCount(params.filters, params.result_count);
     const encodedQuery = encodePercentEncoding(params.query);
     const endpoint = `/v1/keywords/`;
 
+    const requestParams: Record<string, string | number | boolean> = {
+      q: encodedQuery,
+      num: params.num,
+      format: params.format,
+      report_type: params.report_type,
+      result_count: params.result_count ? 1 : 0,
+    };
+
+    if (params.region) {
+      requestParams.region = params.region;
+    }
+
     const response = await makeApiRequest<string | object>(
       endpoint,
       "GET",
       undefined,
-      {
-        q: encodedQuery,
-        num: params.num,
-        format: params.format,
-        report_type: params.report_type,
-        result_count: params.result_count ? 1 : 0,
-      }
+      requestParams,
+      { bypassCache: params.bypass_cache }
     );
 
     if (params.result_count) {
-      const count = typeof response === "string" ? parseInt(response, 10) : (typeof response === "number" ? response : parseInt(String(response), 10));
-      return {
+      const count = parseCount(response);
+      return checkOutput(SearchKeywordsOutputSchema, {
         content: [{
           type: "text",
           text: `Total results found: ${count}`,
         }],
-        structuredContent: { total: count },
-      };
+        structuredContent: { total: count, query: params.query, region: params.region },
+      });
     }
 
-    const parsed = parseResponse(response, params.format);
-    const textContent = formatKeywordsResponse(parsed, params.format, params.query);
+    const fetched = tagRows(normalizeKeywords(response, params.format), params.classify);
+    const { rows: kept, filtered_out } = applyFilters(fetched, params.filters);
+    const keywords = arrangeRows(kept, params);
+    const aggregates = aggregateGroups(keywords, params);
+    const { title, lines } = formatKeywordsResponse(
+      keywords,
+      params.format,
+      params.query,
+      params.region,
+      describeFiltering(filtered_out, fetched.length) + describeTags(keywords) + describeArrangement(params, aggregates)
+    );
+    const report = storeReport(title, lines, keywords, {
+      query: params.query,
+      region: params.region,
+      ...(params.filters ? { filtered_out } : {}),
+      ...(aggregates ? { aggregates } : {}),
+    });
 
-    return {
-      content: [{
-        type: "text",
-        text: textContent.length > CHARACTER_LIMIT
-          ? textContent.substring(0, CHARACTER_LIMIT) + `\n\n[Response truncated. Use 'num' parameter to limit results.]`
-          : textContent,
-      }],
-      structuredContent: parsed,
-    };
+    return checkOutput(SearchKeywordsOutputSchema, reportResult(report, 1));
   } catch (error) {
-    return {
-      content: [{
-        type: "text",
-        text: error instanceof Error ? error.message : String(error),
-      }],
-    };
+    return errorResult(error);
   }
 }
 
-export async function searchKeywordsBatch(params: SearchKeywordsBatchInput): Promise<{ content: Array<{ type: "text"; text: string }>; structuredContent?: any }> {
+export async function searchKeywordsBatch(params: SearchKeywordsBatchInput, onProgress: ProgressReporter = noProgress): Promise<ToolResult<SearchKeywordsBatchOutput>> {
   try {
-    const endpoint = `/v1/mkeywords/`;
-    const queriesText = params.queries.join("\r\n");
-    const exclusionsText = params.exclusions?.join("\r\n") || "";
-
-    const postData: Record<string, string> = {
-      q: queriesText,
-    };
+    assertWithinPlan({ exclusions: params.exclusions?.length, num: params.num });
 
-    if (exclusionsText) {
-      postData.q2 = exclusionsText;
+    // Lists longer than the plan allows go to /v1/mkeywords/ in plan-sized chunks
+    const chunks = chunkArray(params.queries, currentPlan().max_queries);
+    const { results, failures } = await runChunks(chunks, (queries) => fetchBatchChunk(queries, params), onProgress);
+    if (results.length === 0) {
+      throw new BukvarixError(failures[0].error);
     }
 
-    const response = await makeApiRequest<string | object>(
-      endpoint,
-      "POST",
-      {
-        ...postData,
-        num: String(params.num),
-        format: params.format,
-      }
+    const fetched = tagRows(dedupeByKeyword(results.flat()), params.classify);
+    const { rows: kept, filtered_out } = applyFilters(fetched, params.filters);
+    const keywords = arrangeRows(kept, params);
+    const aggregates = aggregateGroups(keywords, params);
+    const { title, lines } = formatKeywordsResponse(
+      keywords,
+      params.format,
+      `Batch search (${params.queries.length} queries)`,
+      params.region,
+      describeFailures(failures, chunks.length, "queries") + describeFiltering(filtered_out, fetched.length) + describeTags(keywords)
+        + describeArrangement(params, aggregates)
     );
+    const report = storeReport(title, lines, keywords, {
+      region: params.region,
+      ...(params.filters ? { filtered_out } : {}),
+      ...(aggregates ? { aggregates } : {}),
+      chunks: chunks.length,
+      ...(failures.length > 0 ? { failed_chunks: failures } : {}),
+    });
 
-    const parsed = parseResponse(response, params.format);
-    const textContent = formatKeywordsResponse(parsed, params.format, `Batch search (${params.queries.length} queries)`);
-
-    return {
-      content: [{
-        type: "text",
-        text: textContent.length > CHARACTER_LIMIT
-          ? textContent.substring(0, CHARACTER_LIMIT) + `\n\n[Response truncated. Use 'num' parameter to limit results.]`
-          : textContent,
-      }],
-      structuredContent: parsed,
-    };
+    return checkOutput(SearchKeywordsBatchOutputSchema, reportResult(report, 1));
   } catch (error) {
-    return {
-      content: [{
-        type: "text",
-        text: error instanceof Error ? error.message : String(error),
-      }],
-    };
+    return errorResult(error);
   }
 }
 
-function formatKeywordsResponse(data: any, format: string, query: string): string {
-  if (format === "json") {
-    if (Array.isArray(data)) {
-      return `# Keywords Search Results: "${query}"\n\nFound ${data.length} keywords:\n\n${data.map((kw, i) => `${i + 1}. ${kw.keyword || kw[0] || kw} - Broad: ${kw.broad_frequency || kw[1] || "N/A"}, Exact: ${kw.exact_frequency || kw[2] || "N/A"}`).join("\n")}`;
-    }
-    return `# Keywords Search Results: "${query}"\n\n${JSON.stringify(data, null, 2)}`;
+async function fetchBatchChunk(queries: string[], params: SearchKeywordsBatchInput): Promise<KeywordResult[]> {
+  const endpoint = `/v1/mkeywords/`;
+  const queriesText = queries.join("\r\n");
+  const exclusionsText = params.exclusions?.join("\r\n") || "";
+
+  const postData: Record<string, string> = {
+    q: queriesText,
+  };
+
+  if (exclusionsText) {
+    postData.q2 = exclusionsText;
+  }
+
+  if (params.region) {
+    postData.region = params.region;
   }
 
+  const response = await makeApiRequest<string | object>(
+    endpoint,
+    "POST",
+    {
+      ...postData,
+      num: String(params.num),
+      format: params.format,
+    },
+    undefined,
+    { bypassCache: params.bypass_cache }
+  );
+
+  return normalizeKeywords(response, params.format);
+}
+
+function formatKeywordsResponse(keywords: KeywordResult[], format: string, query: string, region?: string, notice = ""): { title: string; lines: string[] } {
+  const regionText = region ? ` (${region})` : "";
+  const header = `# Keywords Search Results: "${query}"${regionText}\n\n${notice}Found ${keywords.length} keywords:\n\n`;
+
   if (format === "txt") {
-    if (Array.isArray(data)) {
-      return `# Keywords Search Results: "${query}"\n\nFound ${data.length} keywords:\n\n${data.join("\n")}`;
-    }
-    return `# Keywords Search Results: "${query}"\n\n${String(data)}`;
+    return { title: header, lines: keywords.map((kw) => kw.keyword) };
   }
 
   if (format === "csv" || format === "tsv") {
-    if (data.headers && data.rows) {
-      return `# Keywords Search Results: "${query}"\n\nFound ${data.rows.length} keywords:\n\n| ${data.headers.join(" | ")} |\n|${data.headers.map(() => "---").join("|")}|\n${data.rows.map((row: Record<string, string>) => `| ${data.headers.map((h: string) => row[h] || "").join(" | ")} |`).join("\n")}`;
-    }
+    return {
+      title: header + `| Keyword | Words | Chars | Broad | Exact |\n|---|---|---|---|---|\n`,
+      lines: keywords.map((kw) => `| ${kw.keyword} | ${kw.words_count} | ${kw.chars_count} | ${kw.broad_frequency} | ${kw.exact_frequency} |`),
+    };
   }
 
-  return `# Keywords Search Results: "${query}"\n\n${JSON.stringify(data, null, 2)}`;
+  return { title: header, lines: keywords.map((kw, i) => `${i + 1}. ${kw.keyword} - Broad: ${kw.broad_frequency}, Exact: ${kw.exact_frequency}`) };
 }
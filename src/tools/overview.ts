@@ -0,0 +1,131 @@
+import { makeApiRequest, encodePercentEncoding } from "../services/api-client.js";
+import { parseCount } from "../services/normalize.js";
+import { fetchDomainRows } from "../services/domain-matrix.js";
+import { config } from "../services/config.js";
+import { DEFAULT_CTR_CURVE, POSITION_BUCKETS, keywordTraffic, visibilityIndex, isBranded } from "../services/metrics.js";
+import { brandTerms, tagRows, describeTags } from "../services/intent.js";
+import { arrangeRows, aggregateGroups, describeArrangement } from "../services/arrange.js";
+import { storeReport, reportResult } from "../services/reports.js";
+import { assertWithinPlan } from "../services/plans.js";
+import { normalizeDomain, describeNormalization } from "../services/domain-name.js";
+import { checkOutput, errorResult, type ToolResult } from "../services/tool-result.js";
+import { DomainOverviewOutputSchema, type DomainOverviewOutput } from "../schemas/outputs.js";
+import type { DomainOverviewInput } from "../schemas/overview.js";
+import type { OverviewKeywordRow, PositionBucketStats } from "../types.js";
+
+export async function domainOverview(input: DomainOverviewInput): Promise<ToolResult<DomainOverviewOutput>> {
+  try {
+    const target = normalizeDomain(input.domain, input.strip_www);
+    const params = { ...input, domain: target.domain };
+    assertWithinPlan({ num: params.num });
+    const curve = params.ctr_curve ?? config.ctr_curve ?? DEFAULT_CTR_CURVE;
+    const terms = params.brand_terms ?? brandTerms([params.domain]);
+
+    const [{ rows }, count] = await Promise.all([
+      fetchDomainRows(params.domain, params),
+      countKeywords(params),
+    ]);
+
+    const keywords: OverviewKeywordRow[] = tagRows(rows, params.classify, terms)
+      .map((row) => ({ ...row, traffic: round(keywordTraffic(row, curve), 1), branded: isBranded(row.keyword, terms) }))
+      .sort((a, b) => b.traffic - a.traffic || b.exact_frequency - a.exact_frequency);
+
+    const traffic = sum(keywords.map((row) => row.traffic));
+    const positions: PositionBucketStats[] = POSITION_BUCKETS.map(({ bucket, from, to }) => {
+      const inBucket = keywords.filter((row) => row.position >= from && row.position <= to);
+      return {
+        bucket,
+        keywords: inBucket.length,
+        share: share(inBucket.length, keywords.length),
+        traffic: Math.round(sum(inBucket.map((row) => row.traffic))),
+      };
+    });
+
+    const brandedRows = keywords.filter((row) => row.branded);
+    const brandedTraffic = sum(brandedRows.map((row) => row.traffic));
+    const branded = {
+      terms,
+      keywords: brandedRows.length,
+      keywords_share: share(brandedRows.length, keywords.length),
+      traffic: Math.round(brandedTraffic),
+      traffic_share: share(brandedTraffic, traffic),
+    };
+
+    const summary = {
+      domain: params.domain,
+      region: params.region,
+      // The count comes from a separate call and may lag the rows slightly
+      total_keywords: Math.max(count, keywords.length),
+      analysed_keywords: keywords.length,
+      traffic_estimate: Math.round(traffic),
+      visibility_index: round(visibilityIndex(rows, curve), 2),
+      ctr_curve: curve,
+      positions,
+      branded,
+    };
+
+    // Metrics above cover every row; sort_by and group_by only reorder the keyword list
+    const arranged = arrangeRows(keywords, params);
+    const aggregates = aggregateGroups(arranged, params);
+    const { title, lines } = formatOverviewResponse(arranged, summary, describeNormalization([target]), describeArrangement(params, aggregates));
+    const report = storeReport(title, lines, arranged, { ...summary, ...(aggregates ? { aggregates } : {}) });
+
+    return checkOutput(DomainOverviewOutputSchema, reportResult(report, 1));
+  } catch (error) {
+    return errorResult(error);
+  }
+}
+
+async function countKeywords(params: DomainOverviewInput): Promise<number> {
+  const requestParams: Record<string, string | number | boolean> = {
+    q: encodePercentEncoding(params.domain),
+    result_count: 1,
+    format: "json",
+  };
+  if (params.region) {
+    requestParams.region = params.region;
+  }
+  const response = await makeApiRequest<string | object>(`/v1/site/`, "GET", undefined, requestParams, { bypassCache: params.bypass_cache });
+  return parseCount(response);
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+const share = (part: number, whole: number) => (whole > 0 ? round(part / whole * 100, 1) : 0);
+
+function formatOverviewResponse(
+  keywords: OverviewKeywordRow[],
+  summary: {
+    domain: string;
+    region?: string;
+    total_keywords: number;
+    traffic_estimate: number;
+    visibility_index: number;
+    positions: PositionBucketStats[];
+    branded: { terms: string[]; keywords: number; keywords_share: number; traffic: number; traffic_share: number };
+  },
+  notice = "",
+  arrangement = ""
+): { title: string; lines: string[] } {
+  const regionText = summary.region ? ` (${summary.region})` : "";
+  const coverage = summary.total_keywords > keywords.length
+    ? `Metrics cover the top ${keywords.length} of ${summary.total_keywords} keywords; raise 'num' to include more.\n\n`
+    : "";
+  const bucketLines = summary.positions
+    .map((bucket) => `| ${bucket.bucket} | ${bucket.keywords} | ${bucket.share}% | ${bucket.traffic} |`)
+    .join("\n");
+  const { branded } = summary;
+
+  const header = `# Domain Overview: ${summary.domain}${regionText}\n\n${notice}${coverage}${describeTags(keywords)}`
+    + `Keywords: ${summary.total_keywords}\nEstimated traffic: ${summary.traffic_estimate} visits/month\nVisibility index: ${summary.visibility_index}%\n\n`
+    + `## Positions\n\n| Positions | Keywords | Share | Traffic |\n|---|---|---|---|\n${bucketLines}\n\n`
+    + `## Branded (${branded.terms.join(", ") || "no brand terms"})\n\n`
+    + `Branded keywords: ${branded.keywords} (${branded.keywords_share}%), traffic ${branded.traffic} (${branded.traffic_share}%)\n\n`
+    + (arrangement ? `## Keywords\n\n${arrangement}` : `## Keywords by traffic\n\n`)
+    + `| Keyword | Position | Exact | Traffic | Branded |\n|---|---|---|---|---|\n`;
+
+  return {
+    title: header,
+    lines: keywords.map((row) => `| ${row.keyword} | ${row.position || "-"} | ${row.exact_frequency} | ${row.traffic} | ${row.branded ? "yes" : ""} |`),
+  };
+}
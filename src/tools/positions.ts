@@ -0,0 +1,168 @@
+import { keywordKey } from "../services/normalize.js";
+import { DEFAULT_REGION, listSavedSnapshots, loadSnapshot, type DomainSnapshot } from "../services/snapshots.js";
+import { storeReport, reportResult } from "../services/reports.js";
+import { validationError } from "../services/errors.js";
+import { normalizeDomain, describeNormalization } from "../services/domain-name.js";
+import { brandTerms, tagRows, describeTags } from "../services/intent.js";
+import { arrangeRows, aggregateGroups, describeArrangement } from "../services/arrange.js";
+import { checkOutput, errorResult, type ToolResult } from "../services/tool-result.js";
+import { PositionChangesOutputSchema, type PositionChangesOutput } from "../schemas/outputs.js";
+import type { PositionChangesInput } from "../schemas/positions.js";
+import type { DomainKeywordResult, PositionChangeRow } from "../types.js";
+
+export async function positionChanges(input: PositionChangesInput): Promise<ToolResult<PositionChangesOutput>> {
+  try {
+    const target = normalizeDomain(input.domain, input.strip_www);
+    // Snapshots are saved under the normalized host
+    const params = { ...input, domain: target.domain };
+    const region = params.region ?? DEFAULT_REGION;
+    const snapshots = await listSavedSnapshots(params.domain, region);
+    const [from, to] = pickDates(snapshots, params, region);
+
+    const before = await loadSnapshot(params.domain, region, from);
+    const after = await loadSnapshot(params.domain, region, to);
+    if (!before || !after) {
+      throw validationError(`Error: Snapshot ${before ? to : from} of ${params.domain} (${region}) cannot be read.`);
+    }
+
+    const changes = diffSnapshots(before.keywords, after.keywords);
+    const kept = params.include_unchanged ? changes : changes.filter((row) => row.change !== "unchanged");
+    const keywords = arrangeRows(tagRows(kept, params.classify, brandTerms([params.domain])), params);
+    const aggregates = aggregateGroups(keywords, params);
+    const countOf = (change: PositionChangeRow["change"]) => changes.filter((row) => row.change === change).length;
+    const visibilityFrom = visibility(before.keywords);
+    const visibilityTo = visibility(after.keywords);
+    const summary = {
+      gained: countOf("new"),
+      lost: countOf("lost"),
+      up: countOf("up"),
+      down: countOf("down"),
+      unchanged: countOf("unchanged"),
+      visibility_from: visibilityFrom,
+      visibility_to: visibilityTo,
+      ...(visibilityFrom > 0 ? { visibility_change_percent: round((visibilityTo - visibilityFrom) / visibilityFrom * 100) } : {}),
+    };
+
+    const { title, lines } = formatChangesResponse(keywords, before, after, summary, describeNormalization([target]) + describeArrangement(params, aggregates));
+    const report = storeReport(title, lines, keywords, {
+      domain: params.domain,
+      region,
+      from,
+      to,
+      snapshots,
+      ...summary,
+      ...(aggregates ? { aggregates } : {}),
+    });
+
+    return checkOutput(PositionChangesOutputSchema, reportResult(report, 1));
+  } catch (error) {
+    return errorResult(error);
+  }
+}
+
+/**
+ * Resolve 'from' and 'to' against the saved dates. 'to' defaults to the
+ * latest snapshot and 'from' to the one before 'to'.
+ */
+function pickDates(snapshots: string[], params: PositionChangesInput, region: string): [string, string] {
+  const available = snapshots.length > 0 ? `Saved snapshots: ${snapshots.join(", ")}.` : "No snapshots are saved.";
+  const hint = `${available} Save one with bukvarix_get_domain_keywords and save_snapshot=true.`;
+
+  const to = params.to ?? snapshots[snapshots.length - 1];
+  const from = params.from ?? snapshots.filter((date) => date < (to ?? "")).pop();
+  if (!from || !to) {
+    throw validationError(`Error: Two snapshots of ${params.domain} (${region}) are needed to compare positions. ${hint}`);
+  }
+  for (const date of [from, to]) {
+    if (!snapshots.includes(date)) {
+      throw validationError(`Error: No snapshot of ${params.domain} (${region}) for ${date}. ${hint}`);
+    }
+  }
+  if (from >= to) {
+    throw validationError("Error: 'from' must be an earlier date than 'to'.");
+  }
+  return [from, to];
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Share of a keyword's exact frequency a position earns; unknown positions (0) earn nothing
+const weight = (row: DomainKeywordResult | undefined) => (row && row.position > 0 ? row.exact_frequency / row.position : 0);
+
+/**
+ * Visibility of a snapshot: exact frequency divided by position, summed over
+ * all keywords, the same weighting bukvarix_keyword_gap uses for its score.
+ */
+function visibility(rows: DomainKeywordResult[]): number {
+  return round(rows.reduce((sum, row) => sum + weight(row), 0));
+}
+
+/**
+ * Match keywords of two snapshots and classify each. Rows are ordered by how
+ * much they moved visibility, either way. Frequencies come from the later
+ * snapshot when the keyword is in both.
+ */
+function diffSnapshots(before: DomainKeywordResult[], after: DomainKeywordResult[]): PositionChangeRow[] {
+  const previous = new Map(before.map((row) => [keywordKey(row.keyword), row]));
+  const current = new Map(after.map((row) => [keywordKey(row.keyword), row]));
+  const changes: PositionChangeRow[] = [];
+
+  for (const [key, row] of current) {
+    const old = previous.get(key);
+    const known = old !== undefined && old.position > 0 && row.position > 0;
+    const delta = known ? old.position - row.position : undefined;
+    changes.push({
+      keyword: row.keyword,
+      words_count: row.words_count,
+      chars_count: row.chars_count,
+      broad_frequency: row.broad_frequency,
+      exact_frequency: row.exact_frequency,
+      change: !old ? "new" : delta === undefined || delta === 0 ? "unchanged" : delta > 0 ? "up" : "down",
+      ...(old ? { position_from: old.position } : {}),
+      position_to: row.position,
+      ...(delta !== undefined ? { delta } : {}),
+      visibility_delta: round(weight(row) - weight(old)),
+    });
+  }
+
+  for (const [key, old] of previous) {
+    if (current.has(key)) continue;
+    changes.push({
+      keyword: old.keyword,
+      words_count: old.words_count,
+      chars_count: old.chars_count,
+      broad_frequency: old.broad_frequency,
+      exact_frequency: old.exact_frequency,
+      change: "lost",
+      position_from: old.position,
+      visibility_delta: round(-weight(old)),
+    });
+  }
+
+  return changes.sort((a, b) => Math.abs(b.visibility_delta) - Math.abs(a.visibility_delta) || b.exact_frequency - a.exact_frequency);
+}
+
+function formatChangesResponse(
+  keywords: PositionChangeRow[],
+  before: DomainSnapshot,
+  after: DomainSnapshot,
+  summary: { gained: number; lost: number; up: number; down: number; unchanged: number; visibility_from: number; visibility_to: number; visibility_change_percent?: number },
+  notice = ""
+): { title: string; lines: string[] } {
+  const percent = summary.visibility_change_percent !== undefined
+    ? ` (${summary.visibility_change_percent > 0 ? "+" : ""}${summary.visibility_change_percent}%)`
+    : "";
+  // Rows past the smaller 'num' are cut off, not lost
+  const numNotice = before.num !== after.num
+    ? `Note: the snapshots were fetched with different num (${before.num} and ${after.num}); keywords near the cut-off may show as new or lost.\n\n`
+    : "";
+  const header = `# Position Changes: ${after.domain} (${after.region}), ${before.fetched_at.slice(0, 10)} -> ${after.fetched_at.slice(0, 10)}\n\n${numNotice}${describeTags(keywords)}${notice}`
+    + `Keywords: ${before.keywords.length} -> ${after.keywords.length}. New: ${summary.gained}, lost: ${summary.lost}, up: ${summary.up}, down: ${summary.down}, unchanged: ${summary.unchanged}.\n`
+    + `Visibility (exact frequency / position): ${summary.visibility_from} -> ${summary.visibility_to}${percent}\n\n`
+    + `| Keyword | Change | From | To | Delta | Exact | Visibility delta |\n|---|---|---|---|---|---|---|\n`;
+
+  return {
+    title: header,
+    lines: keywords.map((row) => `| ${row.keyword} | ${row.change} | ${row.position_from ?? "-"} | ${row.position_to ?? "-"} | ${row.delta !== undefined ? (row.delta > 0 ? `+${row.delta}` : row.delta) : "-"} | ${row.exact_frequency} | ${row.visibility_delta} |`),
+  };
+}
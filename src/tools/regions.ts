@@ -0,0 +1,146 @@
+import { makeApiRequest, encodePercentEncoding } from "../services/api-client.js";
+import { normalizeKeywords, keywordKey } from "../services/normalize.js";
+import { fetchDomainRows } from "../services/domain-matrix.js";
+import { storeReport, reportResult } from "../services/reports.js";
+import { assertWithinPlan } from "../services/plans.js";
+import { runChunks, describeFailures } from "../services/chunking.js";
+import { BukvarixError, validationError } from "../services/errors.js";
+import { normalizeDomain, describeNormalization } from "../services/domain-name.js";
+import { noProgress, type ProgressReporter } from "../services/progress.js";
+import { brandTerms, tagRows, describeTags } from "../services/intent.js";
+import { arrangeRows, aggregateGroups, describeArrangement } from "../services/arrange.js";
+import { checkOutput, errorResult, type ToolResult } from "../services/tool-result.js";
+import { RegionSweepOutputSchema, type RegionSweepOutput } from "../schemas/outputs.js";
+import type { RegionSweepInput } from "../schemas/regions.js";
+import type { KeywordResult, RegionSweepRow } from "../types.js";
+
+interface RegionRows {
+  region: string;
+  rows: Array<KeywordResult & { position?: number }>;
+}
+
+export async function regionSweep(input: RegionSweepInput, onProgress: ProgressReporter = noProgress): Promise<ToolResult<RegionSweepOutput>> {
+  try {
+    assertWithinPlan({ num: input.num });
+    if (!input.domain === !input.query) {
+      throw validationError("Error: Pass exactly one of 'domain' or 'query'.");
+    }
+    const targets = input.domain ? [normalizeDomain(input.domain, input.strip_www)] : [];
+    const params = { ...input, ...(targets.length > 0 ? { domain: targets[0].domain } : {}) };
+
+    // One API call per region; each region is a chunk so failures stay per region
+    const regions = [...new Set(params.regions)];
+    const chunks = regions.map((region) => [region]);
+    const { results, failures } = await runChunks(chunks, ([region]) => fetchRegion(region, params), onProgress);
+    if (results.length === 0) {
+      throw new BukvarixError(failures[0].error);
+    }
+
+    const keywords = arrangeRows(tagRows(buildPivot(results), params.classify, brandTerms(params.domain ? [params.domain] : [])), params);
+    const aggregates = aggregateGroups(keywords, params);
+    const coverage = Object.fromEntries(results.map(({ region, rows }) => [region, rows.length]));
+    const subject = params.domain ?? params.query ?? "";
+    const { title, lines } = formatSweepResponse(
+      keywords,
+      subject,
+      results.map(({ region }) => region),
+      coverage,
+      params.domain !== undefined,
+      describeNormalization(targets) + describeFailures(failures, chunks.length, "region") + describeTags(keywords) + describeArrangement(params, aggregates)
+    );
+    const report = storeReport(title, lines, keywords, {
+      ...(params.domain ? { domain: params.domain } : { query: params.query }),
+      regions,
+      coverage,
+      ...(aggregates ? { aggregates } : {}),
+      chunks: chunks.length,
+      ...(failures.length > 0 ? { failed_chunks: failures } : {}),
+    });
+
+    return checkOutput(RegionSweepOutputSchema, reportResult(report, 1));
+  } catch (error) {
+    return errorResult(error);
+  }
+}
+
+async function fetchRegion(region: string, params: RegionSweepInput): Promise<RegionRows> {
+  if (params.domain) {
+    const { rows } = await fetchDomainRows(params.domain, { num: params.num, region, bypass_cache: params.bypass_cache });
+    return { region, rows };
+  }
+
+  const response = await makeApiRequest<string | object>(
+    `/v1/keywords/`,
+    "GET",
+    undefined,
+    {
+      q: encodePercentEncoding(params.query ?? ""),
+      num: params.num,
+      format: "json",
+      region,
+    },
+    { bypassCache: params.bypass_cache }
+  );
+
+  const rows = normalizeKeywords(response, "json");
+  return { region, rows };
+}
+
+/**
+ * Pivot per-region rows into one row per keyword. A keyword counts as missing
+ * only in regions that were fetched; failed regions are unknown, not gaps.
+ * Rows are ordered by their highest broad frequency across regions.
+ */
+function buildPivot(results: RegionRows[]): RegionSweepRow[] {
+  const pivot = new Map<string, RegionSweepRow>();
+
+  for (const { region, rows } of results) {
+    for (const row of rows) {
+      const key = keywordKey(row.keyword);
+      let entry = pivot.get(key);
+      if (!entry) {
+        entry = { keyword: row.keyword, words_count: row.words_count, chars_count: row.chars_count, regions: {}, missing_regions: [] };
+        pivot.set(key, entry);
+      }
+      if (!entry.regions[region]) {
+        entry.regions[region] = {
+          ...(row.position ? { position: row.position } : {}),
+          broad_frequency: row.broad_frequency,
+          exact_frequency: row.exact_frequency,
+        };
+      }
+    }
+  }
+
+  const fetched = results.map(({ region }) => region);
+  const peak = (entry: RegionSweepRow) => Math.max(...Object.values(entry.regions).map((cell) => cell.broad_frequency));
+
+  return [...pivot.values()]
+    .map((entry) => ({ ...entry, missing_regions: fetched.filter((region) => !entry.regions[region]) }))
+    .sort((a, b) => peak(b) - peak(a));
+}
+
+function formatSweepResponse(
+  keywords: RegionSweepRow[],
+  subject: string,
+  regions: string[],
+  coverage: Record<string, number>,
+  withPositions: boolean,
+  notice = ""
+): { title: string; lines: string[] } {
+  const summary = regions.map((region) => `${region}: ${coverage[region]}`).join(", ");
+  const legend = withPositions ? "Cells: position (broad frequency); '-' = not found in region." : "Cells: broad / exact frequency; '-' = not found in region.";
+  const header = `# Region Sweep: ${subject}\n\n${notice}Found ${keywords.length} keywords (per region: ${summary}).\n${legend}\n\n`
+    + `| Keyword | ${regions.join(" | ")} |\n|---|${regions.map(() => "---|").join("")}\n`;
+
+  const cellText = (row: RegionSweepRow, region: string): string => {
+    const cell = row.regions[region];
+    if (!cell) return "-";
+    return withPositions ? `${cell.position ?? "-"} (${cell.broad_frequency})` : `${cell.broad_frequency} / ${cell.exact_frequency}`;
+  };
+
+  return {
+    title: header,
+    lines: keywords.map((row) => `| ${row.keyword} | ${regions.map((region) => cellText(row, region)).join(" | ")} |`),
+  };
+}
@@ -0,0 +1,13 @@
+import { resolveCursor, reportResult } from "../services/reports.js";
+import { checkOutput, errorResult, type ToolResult } from "../services/tool-result.js";
+import { FetchPageOutputSchema, type FetchPageOutput } from "../schemas/outputs.js";
+import type { FetchPageInput } from "../schemas/reports.js";
+
+export async function fetchPage(params: FetchPageInput): Promise<ToolResult<FetchPageOutput>> {
+  try {
+    const { report, page } = resolveCursor(params.cursor);
+    return checkOutput(FetchPageOutputSchema, reportResult(report, page) as ToolResult<FetchPageOutput>);
+  } catch (error) {
+    return errorResult(error);
+  }
+}
@@ -1,35 +1,157 @@
+import type { Intent } from "./services/intent.js";
+
 export interface KeywordResult {
   keyword: string;
   words_count: number;
   chars_count: number;
   broad_frequency: number;
   exact_frequency: number;
+  // Only when the tool was called with classify=true
+  tags?: KeywordTags;
+}
+
+// Offline classification of a phrase; 'brands' and 'cities' list what matched
+export interface KeywordTags {
+  intents: Intent[];
+  brands: string[];
+  cities: string[];
 }
 
 export interface DomainKeywordResult extends KeywordResult {
   search_results_count: number;
   position: number;
+  // Ranking page, only when the response names a URL column
+  url?: string;
+}
+
+export interface ComparisonKeywordResult extends DomainKeywordResult {
+  position2?: number;
+}
+
+// One region's values for a keyword in a region sweep; 'position' only for domain sweeps
+export interface RegionCell {
+  position?: number;
+  broad_frequency: number;
+  exact_frequency: number;
+}
+
+export interface RegionSweepRow {
+  keyword: string;
+  words_count: number;
+  chars_count: number;
+  regions: Record<string, RegionCell>;
+  missing_regions: string[];
+  tags?: KeywordTags;
+}
+
+// One keyword of a competitor matrix: position of every domain that ranks for it
+export interface CompetitorMatrixRow extends KeywordResult {
+  positions: Record<string, number>;
+  domains_count: number;
+}
+
+// A keyword only one domain of a competitor matrix ranks for
+export interface UniqueKeywordRow extends KeywordResult {
+  domain: string;
+  position: number;
 }
 
-export interface KeywordsResponse {
-  keywords: KeywordResult[];
-  total?: number;
+export interface DomainOverlap {
+  domain1: string;
+  domain2: string;
+  common: number;
+  // 'api': full count from /v1/site_cmp/; 'rows': counted in the fetched rows
+  source: "api" | "rows";
 }
 
-export interface DomainKeywordsResponse {
-  keywords: DomainKeywordResult[];
-  total?: number;
+// A keyword competitors rank for while the analysed domain is absent ("missing")
+// or ranks at least min_position_gap positions lower ("lower")
+export interface KeywordGapRow extends KeywordResult {
+  gap_type: "missing" | "lower";
+  position?: number;
+  best_competitor_position: number;
+  competitor_positions: Record<string, number>;
+  competitors_count: number;
+  score: number;
+  // Set by exact_missing on "missing" rows: false when /v1/site_cmp/ did not list the keyword
+  missing_verified?: boolean;
 }
 
-export interface ComparisonResponse {
-  keywords: DomainKeywordResult[];
-  total?: number;
-  comparison_type: string;
-  domains: string[];
+// Phrases grouped around a head term; frequencies are summed over the members
+export interface KeywordCluster {
+  head: string;
+  lemmas: string[];
+  size: number;
+  broad_frequency: number;
+  exact_frequency: number;
+  members: string[];
 }
 
+export type ApiErrorCode = "AUTH" | "QUOTA" | "RATE_LIMIT" | "UPSTREAM" | "NETWORK" | "VALIDATION";
+
 export interface ApiError {
+  code: ApiErrorCode;
+  // HTTP status from the API, 0 when no response was received
   status: number;
   message: string;
   details?: string;
+  retryable: boolean;
+}
+
+export interface PositionChangeRow extends KeywordResult {
+  change: "new" | "lost" | "up" | "down" | "unchanged";
+  position_from?: number;
+  position_to?: number;
+  // position_from - position_to: positive when the keyword moved up
+  delta?: number;
+  visibility_delta: number;
+}
+
+export interface OverviewKeywordRow extends DomainKeywordResult {
+  traffic: number;
+  branded: boolean;
+}
+
+export interface PositionBucketStats {
+  bucket: string;
+  keywords: number;
+  share: number;
+  traffic: number;
+}
+
+// A phrase found by bukvarix_expand_keywords and the phrase whose results it came from
+export interface ExpandedKeywordRow extends KeywordResult {
+  seed: string;
+  // Absent for the seeds themselves
+  parent?: string;
+  // 0 for seeds, 1 for phrases found by querying a seed, and so on
+  depth: number;
+}
+
+export type ExpansionStop = "depth" | "requests" | "rows" | "exhausted";
+
+// One keyword of a site family, attributed to the host with the best position
+export interface SiteFamilyRow extends KeywordResult {
+  host: string;
+  position: number;
+  // Ranking page of the best host, when the response names a URL column
+  url?: string;
+  positions: Record<string, number>;
+  hosts_count: number;
+  // Two or more hosts of the family rank for the phrase
+  cannibalized: boolean;
+}
+
+export interface HostOverlap {
+  host1: string;
+  host2: string;
+  keywords: number;
+}
+
+// One group of a report called with group_by; frequencies are summed or averaged per 'aggregate'
+export interface RowGroup {
+  group: string;
+  keywords: number;
+  broad_frequency: number;
+  exact_frequency: number;
 }
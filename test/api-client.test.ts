@@ -0,0 +1,81 @@
+import { after, before, beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+
+// Replies the stub gives, in order; once they run out it answers 200
+const replies: Array<{ status: number; headers?: Record<string, string> }> = [];
+let requests = 0;
+
+const stub = http.createServer((_req, res) => {
+  requests++;
+  const reply = replies.shift() ?? { status: 200 };
+  res.writeHead(reply.status, { "Content-Type": "application/json", ...reply.headers });
+  res.end(reply.status === 200 ? JSON.stringify({ data: [["окна", 1, 4, 100, 10]] }) : "busy");
+});
+
+let makeApiRequest: typeof import("../src/services/api-client.js").makeApiRequest;
+
+before(async () => {
+  await new Promise<void>((resolve) => stub.listen(0, "127.0.0.1", resolve));
+  // The client reads its settings at import, so they are set first
+  Object.assign(process.env, {
+    BUKVARIX_API_URL: `http://127.0.0.1:${(stub.address() as AddressInfo).port}`,
+    BUKVARIX_CACHE: "off",
+    BUKVARIX_RATE_LIMIT: "0",
+    BUKVARIX_MAX_RETRIES: "2",
+    BUKVARIX_RETRY_BASE_MS: "1",
+    BUKVARIX_RETRY_MAX_MS: "1500",
+  });
+  ({ makeApiRequest } = await import("../src/services/api-client.js"));
+});
+
+after(() => {
+  stub.close();
+});
+
+beforeEach(() => {
+  replies.length = 0;
+  requests = 0;
+});
+
+async function timed(): Promise<number> {
+  const start = Date.now();
+  await makeApiRequest("/v1/keywords/", "GET", undefined, { q: "окна" });
+  return Date.now() - start;
+}
+
+for (const status of [429, 502, 503, 504]) {
+  test(`makeApiRequest retries after ${status}`, async () => {
+    replies.push({ status });
+    const data = await makeApiRequest<{ data: unknown[] }>("/v1/keywords/", "GET", undefined, { q: "окна" });
+    assert.equal(data.data.length, 1);
+    assert.equal(requests, 2);
+  });
+}
+
+test("makeApiRequest does not retry a 500", async () => {
+  replies.push({ status: 500 });
+  await assert.rejects(timed(), { name: "BukvarixError", code: "UPSTREAM", status: 500 });
+  assert.equal(requests, 1);
+});
+
+test("makeApiRequest waits as long as Retry-After asks", async () => {
+  replies.push({ status: 429, headers: { "Retry-After": "1" } });
+  const elapsed = await timed();
+  assert.equal(requests, 2);
+  assert.ok(elapsed >= 900 && elapsed < 1500, `waited ${elapsed} ms`);
+});
+
+test("makeApiRequest caps Retry-After at BUKVARIX_RETRY_MAX_MS", async () => {
+  replies.push({ status: 503, headers: { "Retry-After": "120" } });
+  const elapsed = await timed();
+  assert.equal(requests, 2);
+  assert.ok(elapsed >= 1400 && elapsed < 5000, `waited ${elapsed} ms`);
+});
+
+test("makeApiRequest gives up after BUKVARIX_MAX_RETRIES retries", async () => {
+  replies.push({ status: 503 }, { status: 503 }, { status: 503 }, { status: 503 });
+  await assert.rejects(timed(), { name: "BukvarixError", code: "UPSTREAM", status: 503, retryable: true });
+  assert.equal(requests, 3);
+});
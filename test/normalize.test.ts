@@ -0,0 +1,30 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { normalizeDomainKeywords } from "../src/services/normalize.js";
+
+// Header row exactly as /v1/site/ sends it in csv and tsv
+const HEADERS = [
+  "Ключевое слово",
+  "Количество слов",
+  "Количество символов",
+  "Количество результатов в поисковой машине",
+  "Широкая частотность",
+  "Точная частотность",
+  "Позиция в поисковой выдаче",
+];
+const ROW = ["купить окна", "2", "11", "1000", "5000", "900", "3"];
+
+for (const [format, separator] of [["csv", ";"], ["tsv", "\t"]] as const) {
+  test(`normalizeDomainKeywords reads the position column of a ${format} report`, () => {
+    const data = [HEADERS, ROW].map((cells) => cells.join(separator)).join("\n");
+    assert.deepEqual(normalizeDomainKeywords(data, format), [{
+      keyword: "купить окна",
+      words_count: 2,
+      chars_count: 11,
+      search_results_count: 1000,
+      broad_frequency: 5000,
+      exact_frequency: 900,
+      position: 3,
+    }]);
+  });
+}